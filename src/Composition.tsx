@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   useCurrentFrame,
   useVideoConfig,
@@ -8,16 +8,41 @@ import {
   Video,
   Img,
   AbsoluteFill,
+  Freeze,
   staticFile,
 } from 'remotion';
+import {
+  AnimatableProperty,
+  getTransitionOffsets,
+  isColor,
+  isPoint2D,
+  KeyframeExportData,
+  KeyframeManager,
+  Point2D,
+  Transition
+} from './utils/timelineUtils';
+import {
+  buildCssFilter,
+  CHROMA_KEY_DEFAULTS,
+  chromaKeyMatrix,
+  ClipEffect,
+  EFFECT_DEFAULT_AMOUNTS
+} from './utils/effectUtils';
+import { ItemType, TextAlign } from './utils/timelineConstants';
 
 // 미디어 아이템 타입 정의
 export interface MediaItem {
   id: string;
-  type: 'video' | 'audio' | 'image';
-  src: string;
+  type: ItemType;
+  src: string; // 텍스트 아이템은 빈 문자열
+  text?: string; // 텍스트 아이템 내용
+  textStyle?: TextStyle; // 텍스트 아이템 스타일
+  effects?: ClipEffect[]; // 비주얼 효과 스택 (추가한 순서대로 적용, 오디오는 무시)
+  mediaId?: string; // 미디어 라이브러리 파일 ID
   startFrame: number;
   durationInFrames: number;
+  sourceStartFrame?: number; // 원본 미디어 재생 시작 위치 (소스 in 점, 프레임)
+  sourceDurationInFrames?: number; // 원본 미디어 전체 길이 (프레임, 트림 한계)
   x: number;
   y: number;
   width: number;
@@ -27,8 +52,68 @@ export interface MediaItem {
   rotation?: number;
 }
 
+export { TEXT_ALIGNS } from './utils/timelineConstants';
+export type { TextAlign } from './utils/timelineConstants';
+
+// 텍스트 아이템 스타일 (지정하지 않은 값은 DEFAULT_TEXT_STYLE 사용)
+export interface TextStyle {
+  fontFamily?: string;
+  fontSize?: number; // px
+  fontWeight?: number | 'normal' | 'bold';
+  color?: string;
+  align?: TextAlign;
+  stroke?: { color: string; width: number }; // 외곽선 (px)
+  shadow?: { color: string; blur: number; offsetX: number; offsetY: number };
+  background?: { color: string; padding?: number; borderRadius?: number }; // 배경 박스
+}
+
+export const DEFAULT_TEXT_STYLE = {
+  fontFamily: 'Arial, sans-serif',
+  fontSize: 48,
+  fontWeight: 'bold',
+  color: '#ffffff',
+  align: 'center'
+} as const;
+
+// 텍스트 렌더링 - 아이템 박스 안에서 정렬, 배경 박스는 글자 영역에만 적용
+export const TextContent: React.FC<{ text: string; textStyle?: TextStyle }> = ({ text, textStyle = {} }) => {
+  const align = textStyle.align ?? DEFAULT_TEXT_STYLE.align;
+  const { stroke, shadow, background } = textStyle;
+
+  return (
+    <div style={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: align === 'left' ? 'flex-start' : align === 'right' ? 'flex-end' : 'center',
+    }}>
+      <span style={{
+        fontFamily: textStyle.fontFamily ?? DEFAULT_TEXT_STYLE.fontFamily,
+        fontSize: textStyle.fontSize ?? DEFAULT_TEXT_STYLE.fontSize,
+        fontWeight: textStyle.fontWeight ?? DEFAULT_TEXT_STYLE.fontWeight,
+        color: textStyle.color ?? DEFAULT_TEXT_STYLE.color,
+        textAlign: align,
+        whiteSpace: 'pre-wrap',
+        WebkitTextStroke: stroke ? `${stroke.width}px ${stroke.color}` : undefined,
+        paintOrder: stroke ? 'stroke fill' : undefined,
+        textShadow: shadow ? `${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.color}` : undefined,
+        backgroundColor: background?.color,
+        padding: background ? background.padding ?? 0 : undefined,
+        borderRadius: background?.borderRadius,
+      }}>
+        {text}
+      </span>
+    </div>
+  );
+};
+
+// 미디어 경로 변환 - 원격/data URL은 그대로, 나머지는 public 디렉터리 기준 staticFile
+const resolveMediaSrc = (src: string): string =>
+  /^(https?:|data:|blob:)/.test(src) ? src : staticFile(src);
+
 // 타임라인 컨트롤 타입
-interface TimelineControl {
+export interface TimelineControl {
   trimStart: number;
   trimEnd: number;
   playbackRate: number;
@@ -36,34 +121,65 @@ interface TimelineControl {
 }
 
 // 편집 컴포지션 props
-interface EditorCompositionProps {
+export interface EditorCompositionProps {
   mediaItems?: MediaItem[];
   timelineControls?: { [key: string]: TimelineControl };
+  keyframes?: KeyframeExportData; // 아이템별 키프레임 (프레임은 클립 시작 기준)
+  transitions?: Transition[]; // 보이는 트랙의 클립 간 트랜지션
+  showIndicator?: boolean; // 프레임 표시 (렌더링 출력에서는 끔)
+}
+
+// 트랜지션으로 늘어나는 클립 구간 (head: 시작 이전, tail: 끝 이후 프레임 수)
+interface ClipExtension {
+  head: number;
+  tail: number;
 }
 
-// 미디어 렌더링 컴포넌트
+// 미디어 렌더링 컴포넌트 - 프레임은 클립 시작에서 extension.head만큼 앞선 Sequence 기준
 const MediaRenderer: React.FC<{
   item: MediaItem;
   controls?: TimelineControl;
-}> = ({ item, controls }) => {
+  keyframeManager?: KeyframeManager;
+  extension?: ClipExtension;
+  transitionVolume?: (frame: number) => number;
+}> = ({ item, controls, keyframeManager, extension = { head: 0, tail: 0 }, transitionVolume }) => {
   const frame = useCurrentFrame();
+  const { head, tail } = extension;
+  
+  // 키프레임 값 (클립 시작 기준 프레임), 없으면 아이템 기본값
+  const animated = (property: AnimatableProperty, fallback: number, atFrame: number = frame - head): number => {
+    const value = keyframeManager?.getValue(item.id, atFrame, property);
+    return typeof value === 'number' ? value : fallback;
+  };
+  const animatedPoint = (property: AnimatableProperty, fallback: Point2D): Point2D => {
+    const value = keyframeManager?.getValue(item.id, frame - head, property);
+    return isPoint2D(value) ? value : fallback;
+  };
+  const animatedColor = (property: AnimatableProperty, fallback?: string): string | undefined => {
+    const value = keyframeManager?.getValue(item.id, frame - head, property);
+    return isColor(value) ? value : fallback;
+  };
   
   // 시간 조정 로직
   const trimStart = controls?.trimStart || 0;
   const trimEnd = controls?.trimEnd || item.durationInFrames;
   const playbackRate = controls?.playbackRate || 1;
-  const volume = controls?.volume || 1;
+  const volume = controls?.volume ?? 1;
+  const clipLength = trimEnd - trimStart;
+  // 원본 미디어 기준 재생 시작 위치 (소스 in 점 + 컨트롤 트림)
+  const sourceIn = (item.sourceStartFrame ?? 0) + trimStart;
   
-  // 현재 프레임이 아이템의 재생 범위 내에 있는지 확인
-  const isVisible = frame >= item.startFrame && frame < item.startFrame + (trimEnd - trimStart);
+  // 현재 프레임이 아이템의 재생 범위(트랜지션 연장 포함) 내에 있는지 확인
+  const isVisible = frame >= 0 && frame < head + clipLength + tail;
   
   if (!isVisible) return null;
   
-  // 위치 및 스타일 계산
+  // 위치 및 스타일 계산 (position 키프레임이 있으면 x/y보다 우선)
+  const position = animatedPoint('position', { x: animated('x', item.x), y: animated('y', item.y) });
   const transform = `
-    translate(${item.x}px, ${item.y}px) 
-    scale(${item.scale || 1}) 
-    rotate(${item.rotation || 0}deg)
+    translate(${position.x}px, ${position.y}px) 
+    scale(${animated('scale', item.scale ?? 1)}) 
+    rotate(${animated('rotation', item.rotation ?? 0)}deg)
   `;
   
   const style: React.CSSProperties = {
@@ -72,90 +188,246 @@ const MediaRenderer: React.FC<{
     top: 0,
     width: item.width,
     height: item.height,
-    opacity: item.opacity || 1,
+    opacity: animated('opacity', item.opacity ?? 1),
     transform,
     transformOrigin: 'center',
   };
   
+  const fill: React.CSSProperties = { width: '100%', height: '100%' };
+  
   // 미디어 타입별 렌더링
+  let media: React.ReactNode;
   switch (item.type) {
     case 'video':
-      return (
-        <Video
-          src={staticFile(item.src)}
-          style={style}
-          startFrom={trimStart}
-          endAt={trimEnd}
-          playbackRate={playbackRate}
-          volume={(f) => interpolate(f, [0, 30], [volume, volume])}
-        />
-      );
-    
-    case 'audio':
-      return (
-        <Audio
-          src={staticFile(item.src)}
-          startFrom={trimStart}
-          endAt={trimEnd}
-          playbackRate={playbackRate}
-          volume={(f) => interpolate(f, [0, 30], [volume, volume])}
-        />
+    case 'audio': {
+      // 연장 구간에 원본 여유분(핸들)이 모자라면 경계 프레임에서 정지
+      const headHandle = Math.min(head, sourceIn);
+      const tailHandle = item.sourceDurationInFrames !== undefined
+        ? Math.min(tail, Math.max(0, item.sourceDurationInFrames - (sourceIn + clipLength)))
+        : tail;
+      const frozenHead = head - headHandle;
+      const frozenTailStart = head + clipLength + tailHandle;
+      const mediaProps = {
+        src: resolveMediaSrc(item.src),
+        startFrom: sourceIn - headHandle,
+        endAt: sourceIn + clipLength + tailHandle,
+        playbackRate,
+        // f는 미디어 Sequence 기준 (클립 시작 - headHandle)
+        volume: (f: number) => volume * animated('volume', 1, f - headHandle) * (transitionVolume?.(f + frozenHead) ?? 1),
+      };
+
+      media = (
+        <Freeze
+          frame={frame < frozenHead ? frozenHead : frozenTailStart - 1}
+          active={f => f < frozenHead || f >= frozenTailStart}
+        >
+          <Sequence from={frozenHead} layout="none">
+            {item.type === 'video' ? <Video {...mediaProps} style={fill} /> : <Audio {...mediaProps} />}
+          </Sequence>
+        </Freeze>
       );
+      if (item.type === 'audio') return media;
+      break;
+    }
     
     case 'image':
-      return (
-        <Img
-          src={staticFile(item.src)}
-          style={style}
+      media = <Img src={resolveMediaSrc(item.src)} style={fill} />;
+      break;
+    
+    case 'text': {
+      // color/backgroundColor 키프레임이 있으면 스타일 색상보다 우선 (배경 박스가 없으면 새로 생성)
+      const textStyle = item.textStyle ?? {};
+      const backgroundColor = animatedColor('backgroundColor', textStyle.background?.color);
+      media = (
+        <TextContent
+          text={item.text ?? ''}
+          textStyle={{
+            ...textStyle,
+            color: animatedColor('color', textStyle.color),
+            background: backgroundColor !== undefined ? { ...textStyle.background, color: backgroundColor } : undefined,
+          }}
         />
       );
+      break;
+    }
     
     default:
       return null;
   }
+  
+  return (
+    <div style={style}>
+      <EffectLayer itemId={item.id} effects={item.effects ?? []}>
+        {media}
+      </EffectLayer>
+    </div>
+  );
 };
 
-// 트랜지션 효과 컴포넌트
-const TransitionEffect: React.FC<{
-  startFrame: number;
-  durationInFrames: number;
-  type: 'fadeIn' | 'fadeOut' | 'slideIn' | 'slideOut';
+// 클립 효과 적용 - 색/블러/크로마 키는 미디어에 필터로, 비네트는 위에 덮는 오버레이로
+const EffectLayer: React.FC<{
+  itemId: string;
+  effects: ClipEffect[];
   children: React.ReactNode;
-}> = ({ startFrame, durationInFrames, type, children }) => {
-  const frame = useCurrentFrame();
-  const progress = Math.max(0, Math.min(1, (frame - startFrame) / durationInFrames));
-  
-  let opacity = 1;
-  let transform = '';
-  
-  switch (type) {
-    case 'fadeIn':
-      opacity = interpolate(progress, [0, 1], [0, 1]);
-      break;
-    case 'fadeOut':
-      opacity = interpolate(progress, [0, 1], [1, 0]);
-      break;
-    case 'slideIn':
-      transform = `translateX(${interpolate(progress, [0, 1], [-100, 0])}px)`;
-      break;
-    case 'slideOut':
-      transform = `translateX(${interpolate(progress, [0, 1], [0, 100])}px)`;
-      break;
+}> = ({ itemId, effects, children }) => {
+  const chromaKey = effects.find(effect => effect.type === 'chroma_key');
+  const vignette = effects.find(effect => effect.type === 'vignette');
+  const chromaKeyFilterId = `chroma-key-${itemId}`;
+  const vignetteAmount = vignette ? vignette.amount ?? EFFECT_DEFAULT_AMOUNTS.vignette ?? 0 : 0;
+
+  return (
+    <>
+      {chromaKey && (
+        <svg width={0} height={0} style={{ position: 'absolute' }}>
+          <filter id={chromaKeyFilterId} colorInterpolationFilters="sRGB">
+            <feColorMatrix
+              type="matrix"
+              values={chromaKeyMatrix(chromaKey.color ?? CHROMA_KEY_DEFAULTS.color, chromaKey.tolerance ?? CHROMA_KEY_DEFAULTS.tolerance)}
+            />
+          </filter>
+        </svg>
+      )}
+      <div style={{ width: '100%', height: '100%', filter: buildCssFilter(effects, chromaKeyFilterId) }}>
+        {children}
+      </div>
+      {vignette && (
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          pointerEvents: 'none',
+          background: `radial-gradient(ellipse at center, rgba(0,0,0,0) ${70 - vignetteAmount * 40}%, rgba(0,0,0,${vignetteAmount}) 100%)`,
+        }} />
+      )}
+    </>
+  );
+};
+
+// 트랜지션 진행률 (0~1) - 전환 구간 밖이면 undefined
+const transitionProgress = (frame: number, regionStart: number, durationInFrames: number): number | undefined => {
+  if (frame < regionStart || frame >= regionStart + durationInFrames) return undefined;
+  return interpolate(frame, [regionStart, regionStart + durationInFrames], [0, 1]);
+};
+
+// 트랜지션 스타일 - role: 'out'은 앞 클립, 'in'은 뒤 클립 (뒤 클립이 위에 그려짐)
+const transitionStyle = (transition: Transition, role: 'in' | 'out', progress: number): React.CSSProperties => {
+  const direction = transition.direction ?? 'left';
+  const remaining = (1 - progress) * 100;
+
+  switch (transition.type) {
+    case 'crossfade':
+      return role === 'in' ? { opacity: progress } : {};
+    case 'dip_to_black':
+      return { opacity: role === 'in' ? Math.max(0, progress * 2 - 1) : Math.max(0, 1 - progress * 2) };
+    case 'wipe': {
+      if (role === 'out') return {};
+      const insets = { left: `0 0 0 ${remaining}%`, right: `0 ${remaining}% 0 0`, up: `${remaining}% 0 0 0`, down: `0 0 ${remaining}% 0` };
+      return { clipPath: `inset(${insets[direction]})` };
+    }
+    case 'slide': {
+      if (role === 'out') return {};
+      const offsets = { left: `translateX(${remaining}%)`, right: `translateX(${-remaining}%)`, up: `translateY(${remaining}%)`, down: `translateY(${-remaining}%)` };
+      return { transform: offsets[direction] };
+    }
+    case 'zoom':
+      return role === 'in'
+        ? { opacity: progress, transform: `scale(${0.8 + 0.2 * progress})` }
+        : { opacity: 1 - progress, transform: `scale(${1 + 0.5 * progress})` };
+    default:
+      return {};
   }
-  
+};
+
+// 트랜지션 오디오 레벨 - dip_to_black은 무음을 거치고 나머지는 교차 페이드
+const transitionLevel = (transition: Transition, role: 'in' | 'out', progress: number): number => {
+  if (transition.type === 'dip_to_black') {
+    return role === 'in' ? Math.max(0, progress * 2 - 1) : Math.max(0, 1 - progress * 2);
+  }
+  return role === 'in' ? progress : 1 - progress;
+};
+
+// 타임라인 클립 - 들어오는/나가는 트랜지션만큼 구간을 늘려 앞뒤 클립과 겹쳐 렌더링
+const TimelineClip: React.FC<{
+  item: MediaItem;
+  controls?: TimelineControl;
+  keyframeManager: KeyframeManager;
+  incoming?: Transition;
+  outgoing?: Transition;
+}> = ({ item, controls, keyframeManager, incoming, outgoing }) => {
+  const head = incoming ? getTransitionOffsets(incoming).before : 0;
+  const tail = outgoing ? getTransitionOffsets(outgoing).after : 0;
+  // 나가는 트랜지션 구간 시작 (Sequence 기준, 들어오는 구간은 0부터)
+  const outgoingStart = outgoing ? head + item.durationInFrames - getTransitionOffsets(outgoing).before : 0;
+
+  const phases = (frame: number): { transition: Transition; role: 'in' | 'out'; progress: number }[] => {
+    const inProgress = incoming ? transitionProgress(frame, 0, incoming.durationInFrames) : undefined;
+    const outProgress = outgoing ? transitionProgress(frame, outgoingStart, outgoing.durationInFrames) : undefined;
+    return [
+      ...(incoming && inProgress !== undefined ? [{ transition: incoming, role: 'in' as const, progress: inProgress }] : []),
+      ...(outgoing && outProgress !== undefined ? [{ transition: outgoing, role: 'out' as const, progress: outProgress }] : []),
+    ];
+  };
+
+  return (
+    <Sequence from={item.startFrame - head} durationInFrames={item.durationInFrames + head + tail}>
+      <TransitionLayer phases={phases}>
+        <MediaRenderer
+          item={item}
+          controls={controls}
+          keyframeManager={keyframeManager}
+          extension={{ head, tail }}
+          transitionVolume={frame => phases(frame).reduce((level, phase) => level * transitionLevel(phase.transition, phase.role, phase.progress), 1)}
+        />
+      </TransitionLayer>
+    </Sequence>
+  );
+};
+
+// 현재 프레임의 트랜지션 스타일 적용 (전환 중인 뒤 클립은 앞 클립 위에 그림, 미디어가 다시 마운트되지 않도록 항상 감쌈)
+const TransitionLayer: React.FC<{
+  phases: (frame: number) => { transition: Transition; role: 'in' | 'out'; progress: number }[];
+  children: React.ReactNode;
+}> = ({ phases, children }) => {
+  const frame = useCurrentFrame();
+  const active = phases(frame);
+  const style = active.reduce<React.CSSProperties>(
+    (merged, phase) => ({ ...merged, ...transitionStyle(phase.transition, phase.role, phase.progress) }),
+    {}
+  );
+  const isIncoming = active.some(phase => phase.role === 'in');
+
   return (
-    <div style={{ opacity, transform }}>
+    <AbsoluteFill style={{ ...style, zIndex: isIncoming ? 1 : 0 }}>
       {children}
-    </div>
+    </AbsoluteFill>
   );
 };
 
 // 메인 편집 컴포지션
 export const MyComposition: React.FC<EditorCompositionProps> = ({
   mediaItems = [],
-  timelineControls = {}
+  timelineControls = {},
+  keyframes,
+  transitions = [],
+  showIndicator = true
 }) => {
   const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const keyframeManager = useMemo(() => {
+    const manager = new KeyframeManager(fps);
+    manager.import(keyframes || {});
+    return manager;
+  }, [keyframes, fps]);
+  
+  const renderClip = (item: MediaItem) => (
+    <TimelineClip
+      key={item.id}
+      item={item}
+      controls={timelineControls[item.id]}
+      keyframeManager={keyframeManager}
+      incoming={transitions.find(transition => transition.toItemId === item.id)}
+      outgoing={transitions.find(transition => transition.fromItemId === item.id)}
+    />
+  );
   
   // 미디어 아이템이 없는 경우 빈 상태 표시
   if (mediaItems.length === 0) {
@@ -176,7 +448,7 @@ export const MyComposition: React.FC<EditorCompositionProps> = ({
             Upload files and add them to the timeline to get started
           </div>
           <div style={{ fontSize: 14, marginTop: 20, opacity: 0.5 }}>
-            Frame: {frame} | Time: {(frame / 30).toFixed(2)}s
+            Frame: {frame} | Time: {(frame / fps).toFixed(2)}s
           </div>
         </AbsoluteFill>
       </AbsoluteFill>
@@ -189,101 +461,65 @@ export const MyComposition: React.FC<EditorCompositionProps> = ({
       <AbsoluteFill>
         {mediaItems
           .filter(item => item.type === 'image' && item.id.includes('background'))
-          .map(item => (
-            <MediaRenderer
-              key={item.id}
-              item={item}
-              controls={timelineControls[item.id]}
-            />
-          ))}
+          .map(renderClip)}
       </AbsoluteFill>
       
       {/* 비디오 및 메인 컨텐츠 레이어 */}
       <AbsoluteFill>
         {mediaItems
           .filter(item => item.type === 'video')
-          .map(item => (
-            <Sequence
-              key={item.id}
-              from={item.startFrame}
-              durationInFrames={item.durationInFrames}
-            >
-              <TransitionEffect
-                startFrame={0}
-                durationInFrames={15}
-                type="fadeIn"
-              >
-                <MediaRenderer
-                  item={item}
-                  controls={timelineControls[item.id]}
-                />
-              </TransitionEffect>
-            </Sequence>
-          ))}
+          .map(renderClip)}
       </AbsoluteFill>
       
       {/* 오버레이 및 UI 요소 레이어 */}
       <AbsoluteFill>
         {mediaItems
           .filter(item => item.type === 'image' && !item.id.includes('background'))
-          .map(item => (
-            <Sequence
-              key={item.id}
-              from={item.startFrame}
-              durationInFrames={item.durationInFrames}
-            >
-              <MediaRenderer
-                item={item}
-                controls={timelineControls[item.id]}
-              />
-            </Sequence>
-          ))}
+          .map(renderClip)}
+      </AbsoluteFill>
+      
+      {/* 텍스트 레이어 (가장 위) */}
+      <AbsoluteFill>
+        {mediaItems
+          .filter(item => item.type === 'text')
+          .map(renderClip)}
       </AbsoluteFill>
       
       {/* 오디오 레이어 */}
       {mediaItems
         .filter(item => item.type === 'audio')
-        .map(item => (
-          <Sequence
-            key={item.id}
-            from={item.startFrame}
-            durationInFrames={item.durationInFrames}
-          >
-            <MediaRenderer
-              item={item}
-              controls={timelineControls[item.id]}
-            />
-          </Sequence>
-        ))}
+        .map(renderClip)}
       
       {/* 타임라인 인디케이터 (개발용) */}
-      <AbsoluteFill style={{ pointerEvents: 'none' }}>
-        <div style={{
-          position: 'absolute',
-          top: 10,
-          left: 10,
-          color: 'white',
-          fontFamily: 'Arial',
-          fontSize: 16,
-          textShadow: '2px 2px 4px rgba(0,0,0,0.8)'
-        }}>
-          Frame: {frame} | Time: {(frame / 30).toFixed(2)}s
-        </div>
-        {mediaItems.length > 0 && (
+      {showIndicator && (
+        <AbsoluteFill style={{ pointerEvents: 'none' }}>
           <div style={{
             position: 'absolute',
-            top: 35,
+            top: 10,
             left: 10,
             color: 'white',
             fontFamily: 'Arial',
-            fontSize: 12,
-            textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-            opacity: 0.7
+            fontSize: 16,
+            textShadow: '2px 2px 4px rgba(0,0,0,0.8)'
           }}>
-            {mediaItems.length} media item(s) loaded
+            Frame: {frame} | Time: {(frame / fps).toFixed(2)}s
           </div>
-        )}
-      </AbsoluteFill>
+          {mediaItems.length > 0 && (
+            <div style={{
+              position: 'absolute',
+              top: 35,
+              left: 10,
+              color: 'white',
+              fontFamily: 'Arial',
+              fontSize: 12,
+              textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
+              opacity: 0.7
+            }}>
+              {mediaItems.length} media item(s) loaded
+            </div>
+          )}
+        </AbsoluteFill>
+      )}
     </AbsoluteFill>
   );
 };
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { AbsoluteFill, useCurrentFrame, interpolate, Sequence } from 'remotion';
+import { TextContent, TextStyle } from './Composition';
 
 // MCP 서버에서 가져온 편집 데이터 타입
 interface MCPTimeline {
@@ -11,6 +12,8 @@ interface MCPTimeline {
       id: string;
       type: 'image' | 'video' | 'audio' | 'text';
       src: string;
+      text?: string;
+      textStyle?: TextStyle;
       startFrame: number;
       durationInFrames: number;
       x?: number;
@@ -167,34 +170,8 @@ export const MCPPreview: React.FC<MCPPreviewProps> = ({ sessionId }) => {
                   }}
                 >
                   {item.type === 'text' ? (
-                    // 텍스트 렌더링
-                    <div style={{
-                      color: '#ffffff',
-                      fontSize: 36,
-                      fontWeight: 'bold',
-                      textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-                      padding: 16,
-                      backgroundColor: 'rgba(0,0,0,0.5)',
-                      borderRadius: 8,
-                      border: '2px solid rgba(255,255,255,0.3)',
-                      whiteSpace: 'nowrap'
-                    }}>
-                      {(item as any).text || 'MCP 텍스트'}
-                    </div>
-                  ) : item.type === 'image' && item.src.startsWith('data:image') ? (
-                    // 텍스트 오버레이 (MCP에서 생성된 텍스트 이미지)
-                    <div style={{
-                      color: '#fff',
-                      fontSize: 24,
-                      fontWeight: 'bold',
-                      textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-                      padding: 16,
-                      backgroundColor: 'rgba(0,0,0,0.3)',
-                      borderRadius: 8
-                    }}>
-                      {/* 실제 구현에서는 텍스트 내용을 파싱해야 함 */}
-                      MCP 텍스트 오버레이
-                    </div>
+                    // 텍스트 렌더링 (컴포지션과 같은 스타일)
+                    <TextContent text={item.text ?? ''} textStyle={item.textStyle} />
                   ) : item.type === 'image' ? (
                     <img 
                       src={item.src} 
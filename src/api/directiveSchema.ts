@@ -0,0 +1,275 @@
+// 편집 지시사항 검증 - 타입별 파라미터 스키마와 세션 상태 확인 (브라우저/Node 공용)
+//
+// agent.submit_directives는 묶음의 지시사항을 하나씩 검증해 문제가 있는 것만 이유와 함께 거부하고 나머지는 등록함
+// 실행 시점에만 알 수 있는 문제 (잘라낼 클립 없음, 잠긴 트랙 등)는 실행 결과로 보고됨
+import type { EditingDirective, GeneratedAsset } from './mcpInterface';
+import type { ResolvedTarget } from './directiveTargets';
+import { TEXT_ALIGNS } from '../Composition';
+import { ClipEffect, EFFECT_TYPES, validateEffect } from '../utils/effectUtils';
+import { BASE64_DATA_PATTERN, MEDIA_URL_PATTERN } from '../utils/mediaUtils';
+import { TRANSITION_ALIGNMENTS, TRANSITION_DIRECTIONS, TRANSITION_TYPES } from '../utils/timelineUtils';
+
+export const DIRECTIVE_TYPES = ['cut_sequence', 'add_bgm', 'add_sfx', 'add_text', 'add_transition', 'apply_effect'] as const;
+export type DirectiveType = typeof DIRECTIVE_TYPES[number];
+
+// target을 사용하는 지시사항 (해석 규칙: directiveTargets.ts)
+const TARGET_TYPES: DirectiveType[] = ['add_transition', 'apply_effect'];
+
+// 검증에 필요한 세션 상태
+export interface DirectiveContext {
+  getAsset(assetId: string): GeneratedAsset | undefined; // agent.submit_asset으로 제출된 에셋
+  resolveTarget(target: string): ResolvedTarget | undefined; // target 해석
+  hasDirective(directiveId: string): boolean; // 이미 등록된 지시사항
+}
+
+// 거부된 지시사항 - index는 제출한 목록에서의 위치 (ID가 잘못된 경우 구분용)
+export interface DirectiveRejection {
+  index: number;
+  directiveId?: string;
+  errors: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// 지시사항 하나 검증 - 문제 목록 (없으면 빈 배열), 의존성 존재 여부는 validateDirectiveBatch에서 확인
+export function validateDirective(directive: unknown, context: DirectiveContext): string[] {
+  if (!isObject(directive)) return ['Directive must be an object'];
+  const errors: string[] = [];
+  const { id, type, target, priority, description, dependsOn, maxRetries } = directive;
+
+  if (typeof id !== 'string' || id.length === 0) errors.push('id must be a non-empty string');
+  if (!isNumber(priority)) errors.push('priority must be a number');
+  if (typeof description !== 'string') errors.push('description must be a string');
+  if (dependsOn !== undefined && (!Array.isArray(dependsOn) || dependsOn.some(entry => typeof entry !== 'string'))) {
+    errors.push('dependsOn must be an array of directive IDs');
+  }
+  if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || (maxRetries as number) < 0)) {
+    errors.push('maxRetries must be a non-negative integer');
+  }
+  if (!DIRECTIVE_TYPES.includes(type as DirectiveType)) {
+    errors.push(`Unknown directive type: ${type} (expected ${DIRECTIVE_TYPES.join(', ')})`);
+    return errors;
+  }
+  if (!isObject(directive.parameters)) {
+    errors.push('parameters must be an object');
+    return errors;
+  }
+
+  const params = directive.parameters as EditingDirective['parameters'] & JsonObject;
+  validateTimes(errors, params);
+  if (target !== undefined) {
+    if (typeof target !== 'string') errors.push('target must be a string');
+    else if (!TARGET_TYPES.includes(type as DirectiveType)) errors.push(`${type} does not use target`);
+    else validateTarget(errors, type as DirectiveType, target, context);
+  }
+  TYPE_VALIDATORS[type as DirectiveType](errors, params, context, target as string | undefined);
+  return errors;
+}
+
+// 지시사항 묶음 검증 - 알 수 없는/거부된 지시사항에 의존하거나 순환 의존성에 속한 지시사항도 거부
+export function validateDirectiveBatch(
+  directives: unknown[],
+  context: DirectiveContext
+): { accepted: EditingDirective[]; rejected: DirectiveRejection[] } {
+  const entries = directives.map((directive, index) => {
+    const errors = validateDirective(directive, context);
+    const id = isObject(directive) && typeof directive.id === 'string' ? directive.id : undefined;
+    return { index, id, directive: directive as EditingDirective, errors };
+  });
+
+  const seen = new Set<string>();
+  entries.forEach(entry => {
+    if (entry.id === undefined) return;
+    if (context.hasDirective(entry.id) || seen.has(entry.id)) entry.errors.push(`Duplicate directive ID: ${entry.id}`);
+    seen.add(entry.id);
+  });
+
+  // 의존성 문제는 연쇄적으로 전파되므로 더 이상 바뀌지 않을 때까지 반복
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const valid = new Map(entries.filter(entry => entry.errors.length === 0).map(entry => [entry.id!, entry]));
+    const batchIds = new Set(entries.map(entry => entry.id));
+
+    valid.forEach(entry => {
+      const blocker = (entry.directive.dependsOn ?? []).find(id => !context.hasDirective(id) && !valid.has(id));
+      if (!blocker) return;
+      entry.errors.push(batchIds.has(blocker) ? `Depends on rejected directive ${blocker}` : `Depends on unknown directive ${blocker}`);
+      changed = true;
+    });
+    if (changed) continue;
+
+    const cycle = findDependencyCycle(Array.from(valid.values(), entry => entry.directive));
+    if (cycle) {
+      cycle.slice(0, -1).forEach(id => valid.get(id)!.errors.push(`Circular dependency: ${cycle.join(' -> ')}`));
+      changed = true;
+    }
+  }
+
+  return {
+    accepted: entries.filter(entry => entry.errors.length === 0).map(entry => entry.directive),
+    rejected: entries
+      .filter(entry => entry.errors.length > 0)
+      .map(({ index, id, errors }) => ({ index, directiveId: id, errors }))
+  };
+}
+
+// 같은 묶음 안의 순환 의존성 찾기 (이미 등록된 지시사항은 새 지시사항에 의존할 수 없음)
+export function findDependencyCycle(directives: EditingDirective[]): string[] | undefined {
+  const byId = new Map(directives.map(directive => [directive.id, directive]));
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | undefined => {
+    const start = path.indexOf(id);
+    if (start >= 0) return [...path.slice(start), id];
+    if (visited.has(id) || !byId.has(id)) return undefined;
+    visited.add(id);
+    path.push(id);
+    for (const dependency of byId.get(id)!.dependsOn ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return undefined;
+  };
+
+  for (const directive of directives) {
+    const cycle = visit(directive.id);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+// 타입별 파라미터 검증
+type DirectiveParams = EditingDirective['parameters'] & JsonObject;
+type TypeValidator = (errors: string[], params: DirectiveParams, context: DirectiveContext, target?: string) => void;
+
+const TYPE_VALIDATORS: Record<DirectiveType, TypeValidator> = {
+  cut_sequence: (errors, { startTime, endTime, ripple }) => {
+    if (startTime === undefined || endTime === undefined) errors.push('cut_sequence requires startTime and endTime (seconds)');
+    if (ripple !== undefined && typeof ripple !== 'boolean') errors.push('ripple must be a boolean');
+  },
+
+  add_bgm: (errors, params, context) => validateAsset(errors, params, context, 'bgm'),
+
+  add_sfx: (errors, params, context) => {
+    if (params.startTime === undefined) errors.push('add_sfx requires startTime (seconds)');
+    validateAsset(errors, params, context, 'sfx');
+  },
+
+  add_text: (errors, { text, position, style }) => {
+    if (typeof text !== 'string' || text.length === 0) errors.push('add_text requires a non-empty text');
+    if (position !== undefined && (!isObject(position) || !isNumber(position.x) || !isNumber(position.y))) {
+      errors.push('position must be { x, y } numbers');
+    }
+    if (style !== undefined) validateTextStyle(errors, style);
+  },
+
+  add_transition: (errors, { transition, alignment, direction, startTime }, _context, target) => {
+    if (transition !== undefined && !TRANSITION_TYPES.includes(transition)) {
+      errors.push(`Unknown transition type: ${transition} (expected ${TRANSITION_TYPES.join(', ')})`);
+    }
+    if (alignment !== undefined && !TRANSITION_ALIGNMENTS.includes(alignment)) {
+      errors.push(`Unknown transition alignment: ${alignment} (expected ${TRANSITION_ALIGNMENTS.join(', ')})`);
+    }
+    if (direction !== undefined && !TRANSITION_DIRECTIONS.includes(direction)) {
+      errors.push(`Unknown transition direction: ${direction} (expected ${TRANSITION_DIRECTIONS.join(', ')})`);
+    }
+    if (target === undefined && startTime === undefined) errors.push('add_transition requires a target clip or startTime (seconds)');
+  },
+
+  apply_effect: (errors, { effect, amount, color, tolerance, preset }) => {
+    if (effect === undefined) {
+      errors.push(`apply_effect requires effect (${EFFECT_TYPES.join(', ')})`);
+      return;
+    }
+    const problem = validateEffect({ type: effect, amount, color, tolerance, preset } as ClipEffect);
+    if (problem) errors.push(problem);
+  }
+};
+
+// 시간 파라미터 (초)
+function validateTimes(errors: string[], { startTime, endTime, duration }: DirectiveParams): void {
+  if (startTime !== undefined && (!isNumber(startTime) || startTime < 0)) errors.push('startTime must be a non-negative number (seconds)');
+  if (endTime !== undefined && (!isNumber(endTime) || endTime < 0)) errors.push('endTime must be a non-negative number (seconds)');
+  if (isNumber(startTime) && isNumber(endTime) && endTime <= startTime) {
+    errors.push(`endTime must be after startTime (got ${startTime}-${endTime})`);
+  }
+  if (duration !== undefined && (!isNumber(duration) || duration <= 0)) errors.push('duration must be a positive number (seconds)');
+}
+
+// target이 가리키는 클립 확인 - 시각/구간은 실행 시점의 클립 배치로 판단
+function validateTarget(errors: string[], type: DirectiveType, target: string, context: DirectiveContext): void {
+  const resolved = context.resolveTarget(target);
+  if (!resolved) {
+    errors.push(`Unknown target: ${target} (expected a clip ID, media ID, track name, timecode or time range)`);
+    return;
+  }
+  if (resolved.kind === 'time' || resolved.kind === 'range') return;
+
+  if (resolved.clips.length === 0) errors.push(`Target ${target} matches no clips`);
+  else if (type === 'apply_effect' && resolved.clips.every(clip => clip.type === 'audio')) {
+    errors.push(`Effects cannot be applied to audio clips (${target})`);
+  }
+}
+
+// 에셋 - parameters.asset 또는 먼저 제출된 에셋(assetId), 종류가 맞아야 함
+function validateAsset(errors: string[], { asset, assetId }: DirectiveParams, context: DirectiveContext, type: 'bgm' | 'sfx'): void {
+  if (asset === undefined && assetId === undefined) {
+    errors.push(`add_${type} requires parameters.asset or parameters.assetId`);
+    return;
+  }
+
+  let resolved: unknown = asset;
+  if (asset === undefined) {
+    resolved = typeof assetId === 'string' ? context.getAsset(assetId) : undefined;
+    if (!resolved) {
+      errors.push(`Unknown asset: ${assetId} (submit it with agent.submit_asset first)`);
+      return;
+    }
+  }
+  // 제출된 에셋은 data 대신 등록된 미디어 파일(mediaId)을 가짐
+  if (!isObject(resolved) || typeof resolved.id !== 'string' || (resolved.data === undefined && resolved.mediaId === undefined) || !isObject(resolved.metadata)) {
+    errors.push('asset must have id, type, data and metadata');
+    return;
+  }
+  if (typeof resolved.data === 'string' && !MEDIA_URL_PATTERN.test(resolved.data) && !BASE64_DATA_PATTERN.test(resolved.data)) {
+    errors.push('asset data must be an http(s)/file URL, an absolute path or base64 data');
+  }
+  const metadata = resolved.metadata;
+  if (typeof metadata.filename !== 'string' || typeof metadata.mimeType !== 'string') errors.push('asset metadata requires filename and mimeType');
+  if (resolved.type !== type) errors.push(`Expected a ${type} asset, got ${resolved.type} (${resolved.id})`);
+}
+
+function validateTextStyle(errors: string[], style: unknown): void {
+  if (!isObject(style)) {
+    errors.push('style must be an object');
+    return;
+  }
+  const { fontFamily, fontSize, fontWeight, color, align, stroke, shadow, background } = style;
+
+  if (fontFamily !== undefined && typeof fontFamily !== 'string') errors.push('style.fontFamily must be a string');
+  if (fontSize !== undefined && (!isNumber(fontSize) || fontSize <= 0)) errors.push('style.fontSize must be positive');
+  if (fontWeight !== undefined && !isNumber(fontWeight) && fontWeight !== 'normal' && fontWeight !== 'bold') {
+    errors.push("style.fontWeight must be a number, 'normal' or 'bold'");
+  }
+  if (color !== undefined && typeof color !== 'string') errors.push('style.color must be a string');
+  if (align !== undefined && !TEXT_ALIGNS.includes(align as typeof TEXT_ALIGNS[number])) {
+    errors.push(`Unknown text alignment: ${align} (expected ${TEXT_ALIGNS.join(', ')})`);
+  }
+  if (stroke !== undefined && (!isObject(stroke) || typeof stroke.color !== 'string' || !isNumber(stroke.width))) {
+    errors.push('style.stroke must be { color, width }');
+  }
+  if (shadow !== undefined && (!isObject(shadow) || typeof shadow.color !== 'string' || !['blur', 'offsetX', 'offsetY'].every(key => isNumber(shadow[key])))) {
+    errors.push('style.shadow must be { color, blur, offsetX, offsetY }');
+  }
+  if (background !== undefined && (!isObject(background) || typeof background.color !== 'string')) {
+    errors.push('style.background must be { color, padding?, borderRadius? }');
+  }
+}
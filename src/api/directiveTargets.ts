@@ -0,0 +1,88 @@
+// 지시사항 target 해석 - 클립 ID, 미디어 파일 ID, 트랙 이름, 타임코드/초, 시간 범위 (브라우저/Node 공용)
+//
+// 접두어(clip:, media:, track:, time:)로 종류를 지정할 수 있고, 없으면 클립 → 미디어 → 트랙 → 시간 순으로 해석
+//   clip:<아이템 ID>    해당 클립
+//   media:<미디어 ID>   그 미디어를 사용하는 모든 클립
+//   track:<트랙 이름>   그 트랙의 모든 클립 (트랙 ID도 허용)
+//   time:<타임코드>     그 시각에 걸친 클립 (예: 12.5, 12.5s, 00:01:02.5, 00:01:02:15)
+//   time:<시작>-<끝>    구간과 겹치는 클립 (구분자 - 또는 ~, 예: 10-12, 00:10~00:12)
+import { MediaItem } from '../Composition';
+import { TimeUtils } from '../utils/mediaUtils';
+import type { Track } from '../utils/timelineUtils';
+
+export const TARGET_KINDS = ['clip', 'media', 'track', 'time'] as const;
+export type TargetKind = typeof TARGET_KINDS[number];
+
+export interface TargetClip {
+  trackId: string;
+  itemId: string;
+  type: MediaItem['type'];
+}
+
+// 해석 결과 - time은 startFrame 한 시각, range는 startFrame~endFrame(미포함) 구간
+export interface ResolvedTarget {
+  kind: 'clip' | 'media' | 'track' | 'time' | 'range';
+  clips: TargetClip[];
+  startFrame?: number;
+  endFrame?: number;
+}
+
+// target 해석 (해석할 수 없으면 undefined)
+export function resolveDirectiveTarget(target: string, tracks: Track[], fps: number): ResolvedTarget | undefined {
+  const separator = target.indexOf(':');
+  const prefix = separator > 0 ? target.slice(0, separator) : '';
+  // 타임코드의 콜론과 구분하기 위해 알려진 접두어만 인정
+  const kind = TARGET_KINDS.includes(prefix as TargetKind) ? prefix as TargetKind : undefined;
+  const value = kind ? target.slice(separator + 1) : target;
+
+  const clipsWhere = (matches: (item: MediaItem, track: Track) => boolean): TargetClip[] =>
+    tracks.flatMap(track => track.items
+      .filter(item => matches(item, track))
+      .map(item => ({ trackId: track.id, itemId: item.id, type: item.type })));
+
+  if (!kind || kind === 'clip') {
+    const clips = clipsWhere(item => item.id === value);
+    if (clips.length > 0) return { kind: 'clip', clips };
+  }
+  if (!kind || kind === 'media') {
+    const clips = clipsWhere(item => item.mediaId === value);
+    if (clips.length > 0) return { kind: 'media', clips };
+  }
+  if (!kind || kind === 'track') {
+    const track = tracks.find(candidate => candidate.name === value) ?? tracks.find(candidate => candidate.id === value);
+    if (track) return { kind: 'track', clips: clipsWhere((_item, candidate) => candidate === track) };
+  }
+  if (!kind || kind === 'time') return resolveTime(value, fps, clipsWhere);
+  return undefined;
+}
+
+function resolveTime(
+  value: string,
+  fps: number,
+  clipsWhere: (matches: (item: MediaItem) => boolean) => TargetClip[]
+): ResolvedTarget | undefined {
+  const range = /^(.+?)\s*[-~]\s*(.+)$/.exec(value.trim());
+  if (range) {
+    const start = TimeUtils.parseTimecode(range[1], fps);
+    const end = TimeUtils.parseTimecode(range[2], fps);
+    if (start === undefined || end === undefined || end <= start) return undefined;
+
+    const startFrame = TimeUtils.secondsToFrames(start, fps);
+    const endFrame = TimeUtils.secondsToFrames(end, fps);
+    return {
+      kind: 'range',
+      clips: clipsWhere(item => item.startFrame < endFrame && item.startFrame + item.durationInFrames > startFrame),
+      startFrame,
+      endFrame
+    };
+  }
+
+  const seconds = TimeUtils.parseTimecode(value, fps);
+  if (seconds === undefined) return undefined;
+  const startFrame = TimeUtils.secondsToFrames(seconds, fps);
+  return {
+    kind: 'time',
+    clips: clipsWhere(item => item.startFrame <= startFrame && item.startFrame + item.durationInFrames > startFrame),
+    startFrame
+  };
+}
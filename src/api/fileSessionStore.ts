@@ -0,0 +1,72 @@
+// 파일 기반 세션 저장소 - 세션마다 <sessionId>.project.json 파일로 저장 (Node 전용)
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { SessionProjectData } from '../utils/projectSchema';
+import { SessionStore } from './mcpInterface';
+
+const PROJECT_FILE_SUFFIX = '.project.json';
+
+export interface FileSessionStoreOptions {
+  directory?: string; // 프로젝트 파일 디렉터리
+}
+
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+
+  constructor(options: FileSessionStoreOptions = {}) {
+    this.directory = path.resolve(options.directory || './projects');
+  }
+
+  async save(data: SessionProjectData): Promise<string> {
+    const filePath = this.getFilePath(data.sessionId);
+    const tempPath = `${filePath}.tmp`;
+
+    await mkdir(this.directory, { recursive: true });
+    // 저장 도중 종료되어도 기존 파일이 깨지지 않도록 임시 파일에 쓴 뒤 교체
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, filePath);
+    return filePath;
+  }
+
+  async load(sessionId: string): Promise<unknown> {
+    try {
+      return JSON.parse(await readFile(this.getFilePath(sessionId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const fileNames = await readdir(this.directory);
+      return fileNames
+        .filter(fileName => fileName.endsWith(PROJECT_FILE_SUFFIX))
+        .map(fileName => decodeSessionId(fileName.slice(0, -PROJECT_FILE_SUFFIX.length)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const filePath = this.getFilePath(sessionId);
+    const exists = (await this.list()).includes(sessionId);
+    await rm(filePath, { force: true });
+    return exists;
+  }
+
+  // 세션 ID를 되돌릴 수 있게 인코딩한 파일 이름 (경로 구분자가 남지 않아 디렉터리를 벗어나지 않음)
+  private getFilePath(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}${PROJECT_FILE_SUFFIX}`);
+  }
+}
+
+// 파일 이름에서 세션 ID 복원 - 직접 만든 파일처럼 인코딩이 깨진 이름은 그대로 사용
+function decodeSessionId(name: string): string {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
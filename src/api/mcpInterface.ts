@@ -1,8 +1,55 @@
 // MCP 서버 인터페이스 - 에이전트 협업 기반 편집 시스템
-import { random } from 'remotion';
-import { MediaItem } from '../Composition';
-import { MediaFile, MediaFileManager } from '../utils/mediaUtils';
-import { Track, TimelineManager } from '../utils/timelineUtils';
+import { random, SpringConfig } from 'remotion';
+import { EditorCompositionProps, MediaItem, TEXT_ALIGNS, TextAlign, TextStyle } from '../Composition';
+import {
+  BASE64_DATA_PATTERN,
+  MEDIA_URL_PATTERN,
+  MediaFile,
+  MediaFileManager,
+  MediaIngestor,
+  ProbeOnlyMediaIngestor,
+  TimeUtils
+} from '../utils/mediaUtils';
+import { ClipEffect, ColorPreset, EFFECT_TYPES, EffectType, validateEffect } from '../utils/effectUtils';
+import { parseProjectData, PROJECT_SCHEMA_VERSION, ProjectValidationError, SessionProjectData } from '../utils/projectSchema';
+import {
+  ANIMATABLE_PROPERTIES,
+  AnimatableProperty,
+  COLOR_PROPERTIES,
+  diffTimelines,
+  EditHistoryEntry,
+  GapReport,
+  isColor,
+  isPoint2D,
+  ItemSideEffect,
+  Keyframe,
+  KEYFRAME_EASINGS,
+  KeyframeEasing,
+  KeyframeExportData,
+  KeyframeManager,
+  KeyframeValue,
+  OVERLAP_POLICIES,
+  OverlapPolicy,
+  POINT_PROPERTIES,
+  TimelineDiff,
+  Track,
+  TimelineManager,
+  TimelineOverlapError,
+  Transition,
+  TRANSITION_ALIGNMENTS,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_TYPES,
+  TransitionAlignment,
+  TransitionDirection,
+  TransitionType
+} from '../utils/timelineUtils';
+import { DirectiveContext, DirectiveRejection, DirectiveType, findDependencyCycle, validateDirectiveBatch } from './directiveSchema';
+import { resolveDirectiveTarget } from './directiveTargets';
+import { RENDER_FORMATS, RENDER_QUALITIES, RenderBackend, RenderFormat, RenderJob, RenderJobManager, RenderQuality } from './renderJobs';
+
+// 에이전트 지시사항으로 만드는 오디오 트랙 이름
+const BGM_TRACK_NAME = 'Background Music';
+const SFX_TRACK_NAME = 'Sound Effects';
 
 // 에이전트 타입 정의
 export type AgentType = 'director' | 'bgm_generator' | 'sfx_generator' | 'tts_generator' | 'editor';
@@ -10,19 +57,42 @@ export type AgentType = 'director' | 'bgm_generator' | 'sfx_generator' | 'tts_ge
 // 편집 지시사항 타입 (감독 에이전트로부터)
 export interface EditingDirective {
   id: string;
-  type: 'cut_sequence' | 'add_bgm' | 'add_sfx' | 'add_text' | 'add_transition' | 'apply_effect';
-  target?: string; // 대상 미디어 ID 또는 시간
+  type: DirectiveType; // 타입별 파라미터 검증: directiveSchema.ts
+  target?: string; // 대상 - 클립 ID, 미디어 ID, 트랙 이름, 타임코드/초 또는 시간 범위 (add_transition, apply_effect)
   parameters: {
     startTime?: number;
     endTime?: number;
+    duration?: number; // add_transition: 전환 길이 (초, 기본 0.5)
     position?: { x: number; y: number };
-    style?: any;
+    style?: TextStyle; // add_text: 글꼴/색상/정렬/외곽선/그림자/배경 박스
     asset?: GeneratedAsset;
+    assetId?: string; // agent.submit_asset으로 먼저 제출한 에셋 ID (asset 대신 사용)
     text?: string;
-    effect?: string;
+    effect?: EffectType; // apply_effect: 효과 종류
+    amount?: number; // apply_effect: 효과 강도
+    color?: string; // apply_effect: 크로마 키 색
+    tolerance?: number; // apply_effect: 크로마 키 허용 범위
+    preset?: ColorPreset; // apply_effect: 색보정 프리셋
+    transition?: TransitionType; // add_transition: 전환 종류 (기본 crossfade)
+    alignment?: TransitionAlignment;
+    direction?: TransitionDirection;
+    ripple?: boolean; // cut_sequence: 잘라낸 구간만큼 뒤쪽 클립 당기기
   };
   priority: number; // 실행 순서
   description: string; // 자연어 설명
+  dependsOn?: string[]; // 먼저 완료되어야 하는 지시사항 ID (하나라도 실패하면 건너뜀)
+  maxRetries?: number; // 실패 시 재시도 횟수 (기본: 실행 요청의 maxRetries, 없으면 0)
+}
+
+// 지시사항 실행 상태
+export const DIRECTIVE_STATUSES = ['pending', 'running', 'completed', 'failed', 'skipped'] as const;
+export type DirectiveStatus = typeof DIRECTIVE_STATUSES[number];
+
+export interface DirectiveState {
+  id: string;
+  status: DirectiveStatus;
+  attempts: number; // 마지막 실행(또는 재시도 요청) 이후 시도 횟수
+  error?: string; // 실패/건너뜀 이유
 }
 
 // 생성된 에셋 타입 (다른 에이전트들로부터)
@@ -30,7 +100,7 @@ export interface GeneratedAsset {
   id: string;
   type: 'bgm' | 'sfx' | 'tts' | 'image' | 'video';
   agentId: string;
-  data: ArrayBuffer | string; // 파일 데이터 또는 URL
+  data?: ArrayBuffer | string; // 파일 데이터 또는 URL (등록된 에셋은 미디어 파일이 내용을 가지므로 보관하지 않음)
   metadata: {
     duration?: number;
     filename: string;
@@ -39,6 +109,34 @@ export interface GeneratedAsset {
     tags?: string[];
   };
   generationParams?: any; // 생성에 사용된 파라미터
+  mediaId?: string; // 등록된 미디어 라이브러리 파일 ID (서버가 설정, 같은 내용의 에셋끼리 공유)
+}
+
+// 에셋 종류별 미디어 타입
+export const ASSET_MEDIA_TYPES: Record<GeneratedAsset['type'], MediaFile['type']> = {
+  bgm: 'audio',
+  sfx: 'audio',
+  tts: 'audio',
+  image: 'image',
+  video: 'video'
+};
+
+// 세션에 보관할 에셋 - 미디어 라이브러리에 등록되면 data를 빼서 자동 저장마다 프로젝트 파일에 다시 쓰지 않음
+function withoutRegisteredData(asset: GeneratedAsset): GeneratedAsset {
+  if (asset.mediaId === undefined) return asset;
+  const stored = { ...asset };
+  delete stored.data;
+  return stored;
+}
+
+// 에셋 목록 항목 (데이터 제외)
+export interface AssetSummary {
+  id: string;
+  type: GeneratedAsset['type'];
+  agentId: string;
+  metadata: GeneratedAsset['metadata'];
+  mediaId?: string;
+  itemIds: string[]; // 에셋 미디어를 사용하는 타임라인 아이템
 }
 
 // 편집 상태 보고
@@ -50,18 +148,47 @@ export interface EditingStatus {
   message: string;
   completedDirectives: string[];
   pendingDirectives: string[];
+  failedDirectives: string[];
+  skippedDirectives: string[];
+  directiveStates: DirectiveState[]; // 제출된 지시사항별 상태 (priority 순)
   generatedAssets: GeneratedAsset[];
 }
 
-// MCP 메시지 타입
+// JSON-RPC 2.0 오류 코드 (-32000 ~ -32099는 서버 정의 오류)
+export const MCPErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  SessionNotFound: -32001,
+  ResourceNotFound: -32002
+} as const;
+
+// 오류 코드를 가진 MCP 오류
+export class MCPError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'MCPError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// MCP 메시지 타입 (JSON-RPC 2.0 호환)
 export interface MCPRequest {
-  id: string;
+  jsonrpc?: '2.0';
+  id: string | number;
   method: string;
   params: RequestParams;
 }
 
 export interface MCPResponse {
-  id: string;
+  jsonrpc: '2.0';
+  id: string | number | null;
   result?: ResponseResult;
   error?: {
     code: number;
@@ -71,11 +198,11 @@ export interface MCPResponse {
 }
 
 // 요청 파라미터 타입 (간소화됨)
-interface RequestParams {
+export interface RequestParams {
   sessionId?: string;
   
   // 기본 미디어 관리
-  fileData?: ArrayBuffer;
+  fileData?: ArrayBuffer | string; // JSON 전송 시 base64 문자열
   fileName?: string;
   fileType?: string;
   mediaId?: string;
@@ -85,12 +212,31 @@ interface RequestParams {
   itemId?: string;
   name?: string;
   type?: 'video' | 'audio' | 'subtitle' | 'overlay';
+  overlapPolicy?: string;
   startFrame?: number;
   endFrame?: number;
   newStartFrame?: number;
   newTrackId?: string;
   splitFrame?: number;
   
+  // 리플/롤/슬립/슬라이드 편집
+  allTracks?: boolean; // 리플 편집을 잠기지 않은 모든 트랙에 적용
+  trackIds?: string[]; // 빈 구간을 함께 닫을 트랙 목록 (싱크 유지)
+  editFrame?: number; // 롤 편집의 새 경계 프레임
+  offset?: number; // 슬립/슬라이드 이동량 (프레임, 음수 가능)
+  
+  // 비주얼 효과 (크로마 키 색은 color)
+  effectType?: string;
+  amount?: number;
+  tolerance?: number;
+  preset?: string;
+  
+  // 트랜지션
+  transitionId?: string;
+  transitionType?: string;
+  alignment?: string;
+  direction?: string;
+  
   // 기본 변형
   x?: number;
   y?: number;
@@ -100,29 +246,48 @@ interface RequestParams {
   scale?: number;
   rotation?: number;
   
+  // 키프레임
+  property?: string;
+  value?: KeyframeValue;
+  easing?: string;
+  bezier?: number[]; // cubic-bezier 제어점 [x1, y1, x2, y2]
+  steps?: number;
+  spring?: Partial<SpringConfig>;
+  
   // 텍스트 오버레이
   text?: string;
+  durationInFrames?: number; // 텍스트 표시 길이 (기본 3초)
   fontFamily?: string;
   fontSize?: number;
+  fontWeight?: TextStyle['fontWeight'];
   color?: string;
+  align?: string;
+  stroke?: TextStyle['stroke'];
+  shadow?: TextStyle['shadow'];
+  background?: TextStyle['background'];
   
   // 에이전트 협업
   agentId?: string;
   agentType?: AgentType;
   directive?: EditingDirective;
   directives?: EditingDirective[];
+  directiveId?: string;
+  maxRetries?: number; // 지시사항 재시도 횟수 기본값
+  assetId?: string;
   asset?: GeneratedAsset;
   assets?: GeneratedAsset[];
   
   // 기타
+  fps?: number;
   frame?: number;
   format?: string;
   quality?: string;
   outputPath?: string;
+  exportId?: string;
 }
 
 // 응답 결과 타입
-interface ResponseResult {
+export interface ResponseResult {
   sessionId?: string;
   success?: boolean;
   sessions?: string[];
@@ -132,38 +297,90 @@ interface ResponseResult {
   tracks?: Track[];
   currentFrame?: number;
   totalDuration?: number;
+  fps?: number;
   mediaItem?: MediaItem;
+  affectedItems?: ItemSideEffect[]; // 겹침 정리/리플 등으로 함께 바뀐 다른 아이템
+  gaps?: GapReport;
+  transition?: Transition;
+  keyframes?: KeyframeExportData;
   exportId?: string;
   status?: string;
   message?: string;
   
+  // 프로젝트 저장
+  projectPath?: string;
+  savedAt?: string;
+  
+  // 렌더링 작업
+  renderJob?: RenderJob;
+  renderJobs?: RenderJob[];
+  
+  // 편집 기록
+  history?: EditHistoryEntry[];
+  historyCursor?: number;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  
   // 에이전트 협업 관련
   editingStatus?: EditingStatus;
   acceptedAssets?: string[];
+  asset?: GeneratedAsset;
+  assets?: AssetSummary[];
+  itemIds?: string[]; // 에셋 미디어를 사용하는(교체된) 타임라인 아이템
+  deduplicated?: boolean; // 같은 내용의 기존 미디어 파일을 공유
+  acceptedDirectives?: string[];
+  rejectedDirectives?: DirectiveRejection[];
   processedDirectives?: string[];
+  directiveStates?: DirectiveState[];
+  timelineDiff?: TimelineDiff;
   pendingTasks?: string[];
 }
 
+// 세션/서버 구성 옵션
+export interface EditingSessionOptions {
+  mediaIngestor?: MediaIngestor; // 서버(Node) 환경에서 업로드 파일 저장 및 분석
+  uploadPath?: string;
+  fps?: number; // 타임라인 프레임 레이트 (기본 30)
+}
+
+export interface MCPServerOptions extends EditingSessionOptions {
+  renderBackend?: RenderBackend; // 서버(Node) 환경에서 render.export 실제 렌더링
+  sessionStore?: SessionStore; // 세션 프로젝트 파일 저장소
+  autosave?: boolean; // 변경된 세션을 요청 처리 후 자동 저장 (기본 true)
+}
+
+// 세션 저장소 - Node 구현: fileSessionStore.ts
+export interface SessionStore {
+  save(data: SessionProjectData): Promise<string>; // 저장 위치 반환
+  load(sessionId: string): Promise<unknown>; // 저장된 JSON 그대로 (이전 버전일 수 있음), 없으면 undefined
+  list(): Promise<string[]>;
+  delete(sessionId: string): Promise<boolean>;
+}
+
 // 편집 세션 관리 (확장됨)
 export class EditingSession {
   private sessionId: string;
   private mediaManager: MediaFileManager;
   private timelineManager: TimelineManager;
+  private keyframeManager: KeyframeManager;
   private lastSaved: Date;
   private isDirty: boolean = false;
   
   // 에이전트 협업 관련
   private directorAgent?: string;
   private connectedAgents: Map<AgentType, string> = new Map();
-  private pendingDirectives: EditingDirective[] = [];
-  private completedDirectives: string[] = [];
+  private directives: EditingDirective[] = []; // 제출된 지시사항 (priority 순, 같으면 제출 순)
+  private directiveStates: Map<string, DirectiveState> = new Map();
   private generatedAssets: Map<string, GeneratedAsset> = new Map();
   private editingStatus: EditingStatus;
 
-  constructor(sessionId: string) {
+  constructor(sessionId: string, options: EditingSessionOptions = {}) {
     this.sessionId = sessionId;
-    this.mediaManager = new MediaFileManager();
-    this.timelineManager = new TimelineManager();
+    this.mediaManager = new MediaFileManager(options.uploadPath, options.mediaIngestor);
+    this.timelineManager = new TimelineManager(options.fps);
+    this.keyframeManager = new KeyframeManager(options.fps);
+    this.timelineManager.setKeyframeManager(this.keyframeManager);
+    this.timelineManager.setAssetMediaHandler((assetId, mediaId) => this.setAssetMedia(assetId, mediaId));
     this.lastSaved = new Date();
     
     this.editingStatus = {
@@ -174,6 +391,9 @@ export class EditingSession {
       message: 'Session created',
       completedDirectives: [],
       pendingDirectives: [],
+      failedDirectives: [],
+      skippedDirectives: [],
+      directiveStates: [],
       generatedAssets: []
     };
   }
@@ -182,37 +402,241 @@ export class EditingSession {
   getSessionId(): string { return this.sessionId; }
   getMediaManager(): MediaFileManager { return this.mediaManager; }
   getTimelineManager(): TimelineManager { return this.timelineManager; }
+  getKeyframeManager(): KeyframeManager { return this.keyframeManager; }
   markDirty(): void { this.isDirty = true; }
   markSaved(): void { this.isDirty = false; this.lastSaved = new Date(); }
   isDirtyState(): boolean { return this.isDirty; }
   getLastSaved(): Date { return this.lastSaved; }
 
+  // MyComposition 입력 props - 보이는 트랙의 아이템과 트랙 볼륨
+  getCompositionProps(): EditorCompositionProps {
+    const mediaItems: MediaItem[] = [];
+    const timelineControls: NonNullable<EditorCompositionProps['timelineControls']> = {};
+    const transitions: Transition[] = [];
+
+    this.timelineManager.getTracks()
+      .filter(track => track.isVisible)
+      .forEach(track => {
+        transitions.push(...(track.transitions ?? []));
+        track.items.forEach(item => {
+          mediaItems.push(item);
+          timelineControls[item.id] = {
+            trimStart: 0,
+            trimEnd: item.durationInFrames,
+            playbackRate: 1,
+            volume: track.volume ?? 1
+          };
+        });
+      });
+
+    return { mediaItems, timelineControls, keyframes: this.keyframeManager.export(), transitions, showIndicator: false };
+  }
+
+  // 프로젝트 파일 데이터로 직렬화
+  exportProject(): SessionProjectData {
+    // 삭제된 아이템의 키프레임은 저장하지 않음 (메모리에는 실행 취소용으로 유지)
+    const itemIds = new Set(this.timelineManager.getTracks().flatMap(track => track.items.map(item => item.id)));
+    const keyframes = Object.fromEntries(
+      Object.entries(this.keyframeManager.export()).filter(([itemId]) => itemIds.has(itemId))
+    );
+
+    return {
+      version: PROJECT_SCHEMA_VERSION,
+      sessionId: this.sessionId,
+      savedAt: new Date().toISOString(),
+      timeline: this.timelineManager.export(),
+      mediaFiles: this.mediaManager.export(),
+      keyframes,
+      agents: Array.from(this.connectedAgents.entries()).map(([agentType, agentId]) => ({ agentType, agentId })),
+      directives: [...this.directives],
+      directiveStates: Array.from(this.directiveStates.values(), state => ({ ...state })),
+      generatedAssets: Array.from(this.generatedAssets.values())
+    };
+  }
+
+  // 프로젝트 파일 데이터로 상태 복원 (실행 취소 기록은 복원하지 않음)
+  importProject(data: SessionProjectData): void {
+    this.timelineManager.import(data.timeline);
+    this.mediaManager.import(data.mediaFiles || []);
+    this.keyframeManager.import(data.keyframes || {});
+
+    this.connectedAgents.clear();
+    this.directorAgent = undefined;
+    (data.agents || []).forEach(({ agentType, agentId }) => this.registerAgent(agentType, agentId));
+
+    this.directives = [...(data.directives || [])];
+    this.directiveStates = new Map((data.directiveStates || []).map(state => [state.id, { ...state }]));
+    this.directives.forEach(directive => {
+      const state = this.directiveStates.get(directive.id);
+      // 실행 도중 저장된 지시사항은 다시 대기
+      if (!state || state.status === 'running') this.directiveStates.set(directive.id, { id: directive.id, status: 'pending', attempts: 0 });
+    });
+    this.generatedAssets = new Map((data.generatedAssets || []).map(asset => [asset.id, withoutRegisteredData(asset)]));
+    this.updateEditingStatus();
+
+    this.isDirty = false;
+    this.lastSaved = data.savedAt ? new Date(data.savedAt) : new Date();
+  }
+
   // 에이전트 협업 메서드들
   registerAgent(agentType: AgentType, agentId: string): void {
     this.connectedAgents.set(agentType, agentId);
     if (agentType === 'director') {
       this.directorAgent = agentId;
     }
+    this.isDirty = true;
   }
 
+  // 지시사항 등록 - ID 중복, 알 수 없는 의존성, 순환 의존성이 있으면 전체를 거부
   addDirectives(directives: EditingDirective[]): void {
-    this.pendingDirectives.push(...directives);
-    this.pendingDirectives.sort((a, b) => a.priority - b.priority);
+    const batchIds = new Set<string>();
+    directives.forEach(directive => {
+      if (this.directiveStates.has(directive.id) || batchIds.has(directive.id)) {
+        throw new MCPError(MCPErrorCode.InvalidParams, `Duplicate directive ID: ${directive.id}`);
+      }
+      batchIds.add(directive.id);
+    });
+    directives.forEach(directive => {
+      const unknown = (directive.dependsOn ?? []).find(id => !this.directiveStates.has(id) && !batchIds.has(id));
+      if (unknown) throw new MCPError(MCPErrorCode.InvalidParams, `Directive ${directive.id} depends on unknown directive ${unknown}`);
+      if (directive.maxRetries !== undefined && (!Number.isInteger(directive.maxRetries) || directive.maxRetries < 0)) {
+        throw new MCPError(MCPErrorCode.InvalidParams, `Directive ${directive.id} maxRetries must be a non-negative integer`);
+      }
+    });
+    const cycle = findDependencyCycle(directives);
+    if (cycle) throw new MCPError(MCPErrorCode.InvalidParams, `Circular directive dependency: ${cycle.join(' -> ')}`);
+
+    this.directives.push(...directives);
+    this.directives.sort((a, b) => a.priority - b.priority);
+    directives.forEach(directive => this.directiveStates.set(directive.id, { id: directive.id, status: 'pending', attempts: 0 }));
+    this.skipBlockedDirectives();
     this.updateEditingStatus();
+    this.isDirty = true;
+  }
+
+  getGeneratedAsset(assetId: string): GeneratedAsset | undefined {
+    return this.generatedAssets.get(assetId);
+  }
+
+  getGeneratedAssets(): GeneratedAsset[] {
+    return Array.from(this.generatedAssets.values());
   }
 
+  // 에셋 등록 (같은 ID가 있으면 교체)
   addGeneratedAsset(asset: GeneratedAsset): void {
-    this.generatedAssets.set(asset.id, asset);
+    this.generatedAssets.set(asset.id, withoutRegisteredData(asset));
     this.updateEditingStatus();
+    this.isDirty = true;
+  }
+
+  removeGeneratedAsset(assetId: string): boolean {
+    const removed = this.generatedAssets.delete(assetId);
+    if (removed) {
+      this.updateEditingStatus();
+      this.isDirty = true;
+    }
+    return removed;
+  }
+
+  // 에셋이 가리키는 미디어 파일 변경 (에셋 교체 편집과 그 실행 취소/다시 실행)
+  private setAssetMedia(assetId: string, mediaId: string | undefined): void {
+    const asset = this.generatedAssets.get(assetId);
+    if (!asset) return;
+    this.generatedAssets.set(assetId, { ...asset, mediaId });
+    this.isDirty = true;
+  }
+
+  // 에셋이 등록된 미디어 파일 (mediaId가 없는 이전 프로젝트는 assetId로 찾음)
+  getAssetMediaFile(assetId: string): MediaFile | undefined {
+    const asset = this.generatedAssets.get(assetId);
+    if (!asset) return undefined;
+    return asset.mediaId !== undefined
+      ? this.mediaManager.getMediaFile(asset.mediaId)
+      : this.mediaManager.getMediaFiles().find(mediaFile => mediaFile.assetId === assetId);
+  }
+
+  getDirective(directiveId: string): EditingDirective | undefined {
+    return this.directives.find(directive => directive.id === directiveId);
+  }
+
+  getDirectiveState(directiveId: string): DirectiveState | undefined {
+    const state = this.directiveStates.get(directiveId);
+    return state && { ...state };
   }
 
+  // 실행할 다음 지시사항 - 의존성이 모두 완료된 대기 지시사항 중 priority가 가장 앞선 것
   getNextDirective(): EditingDirective | undefined {
-    return this.pendingDirectives.shift();
+    return this.directives.find(directive =>
+      this.directiveStates.get(directive.id)?.status === 'pending' &&
+      (directive.dependsOn ?? []).every(id => this.directiveStates.get(id)?.status === 'completed')
+    );
+  }
+
+  markDirectiveRunning(directiveId: string): void {
+    const state = this.directiveStates.get(directiveId)!;
+    state.status = 'running';
+    state.attempts += 1;
+    this.updateEditingStatus();
+    this.isDirty = true;
   }
 
   markDirectiveCompleted(directiveId: string): void {
-    this.completedDirectives.push(directiveId);
+    const state = this.directiveStates.get(directiveId)!;
+    state.status = 'completed';
+    delete state.error;
+    this.updateEditingStatus();
+    this.isDirty = true;
+  }
+
+  // 실패 처리 - 이 지시사항에 의존하는 대기 지시사항은 건너뜀
+  markDirectiveFailed(directiveId: string, error: string): void {
+    const state = this.directiveStates.get(directiveId)!;
+    state.status = 'failed';
+    state.error = error;
+    this.skipBlockedDirectives();
+    this.updateEditingStatus();
+    this.isDirty = true;
+  }
+
+  // 실패한 지시사항을 다시 대기열에 넣음 - 그 때문에 건너뛴 지시사항도 함께 대기
+  retryDirective(directiveId: string, maxRetries?: number): void {
+    const state = this.directiveStates.get(directiveId);
+    if (!state) throw new MCPError(MCPErrorCode.ResourceNotFound, `Directive not found: ${directiveId}`);
+    if (state.status !== 'failed') {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Only failed directives can be retried (${directiveId} is ${state.status})`);
+    }
+    if (maxRetries !== undefined) {
+      const directive = this.getDirective(directiveId)!;
+      this.directives = this.directives.map(entry => entry === directive ? { ...directive, maxRetries } : entry);
+    }
+
+    this.directiveStates.set(directiveId, { id: directiveId, status: 'pending', attempts: 0 });
+    this.directiveStates.forEach(entry => {
+      if (entry.status !== 'skipped') return;
+      entry.status = 'pending';
+      delete entry.error;
+    });
+    // 다른 실패 때문에 막힌 지시사항은 다시 건너뜀
+    this.skipBlockedDirectives();
     this.updateEditingStatus();
+    this.isDirty = true;
+  }
+
+  // 실패하거나 건너뛴 의존성이 있는 대기 지시사항을 건너뜀 (연쇄 전파)
+  private skipBlockedDirectives(): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      this.directives.forEach(directive => {
+        const state = this.directiveStates.get(directive.id)!;
+        if (state.status !== 'pending') return;
+        const blocker = (directive.dependsOn ?? []).find(id => ['failed', 'skipped'].includes(this.directiveStates.get(id)!.status));
+        if (!blocker) return;
+        state.status = 'skipped';
+        state.error = `Dependency ${blocker} ${this.directiveStates.get(blocker)!.status}`;
+        changed = true;
+      });
+    }
   }
 
   getEditingStatus(): EditingStatus {
@@ -220,14 +644,29 @@ export class EditingSession {
   }
 
   private updateEditingStatus(): void {
+    // 이전 버전에서 완료된 지시사항은 본문 없이 상태만 있으므로 상태 목록 순서를 따름
+    const states = Array.from(this.directiveStates.values());
+    const order = new Map(this.directives.map((directive, index) => [directive.id, index]));
+    states.sort((a, b) => (order.get(a.id) ?? -1) - (order.get(b.id) ?? -1));
+    const idsWith = (...statuses: DirectiveStatus[]) => states.filter(state => statuses.includes(state.status)).map(state => state.id);
+
+    const completed = idsWith('completed');
+    const pending = idsWith('pending', 'running');
+    const failed = idsWith('failed');
+    const skipped = idsWith('skipped');
+    const problems = [failed.length > 0 && `${failed.length} failed`, skipped.length > 0 && `${skipped.length} skipped`].filter(Boolean);
+
     this.editingStatus = {
       sessionId: this.sessionId,
-      currentStep: this.completedDirectives.length,
-      totalSteps: this.completedDirectives.length + this.pendingDirectives.length,
-      status: this.pendingDirectives.length > 0 ? 'processing' : 'completed',
-      message: `${this.completedDirectives.length} tasks completed, ${this.pendingDirectives.length} pending`,
-      completedDirectives: [...this.completedDirectives],
-      pendingDirectives: this.pendingDirectives.map(d => d.id),
+      currentStep: completed.length,
+      totalSteps: states.length,
+      status: pending.length > 0 ? 'processing' : failed.length > 0 ? 'error' : 'completed',
+      message: [`${completed.length} tasks completed, ${pending.length} pending`, ...problems].join(', '),
+      completedDirectives: completed,
+      pendingDirectives: pending,
+      failedDirectives: failed,
+      skippedDirectives: skipped,
+      directiveStates: states.map(state => ({ ...state })),
       generatedAssets: Array.from(this.generatedAssets.values())
     };
   }
@@ -236,11 +675,24 @@ export class EditingSession {
 // MCP 비디오 편집 서버 - 간단한 편집 도구 + 에이전트 협업
 export class MCPVideoEditingServer {
   private sessions: Map<string, EditingSession> = new Map();
+  private options: EditingSessionOptions;
+  private renderJobs: RenderJobManager;
+  private sessionStore?: SessionStore;
+  private autosave: boolean;
+
+  constructor(options: MCPServerOptions = {}) {
+    const { renderBackend, sessionStore, autosave = true, ...sessionOptions } = options;
+    this.options = sessionOptions;
+    this.renderJobs = new RenderJobManager(renderBackend);
+    this.sessionStore = sessionStore;
+    this.autosave = autosave;
+  }
 
   // 새 편집 세션 생성
-  createSession(): string {
+  createSession(fps?: number): string {
     const sessionId = this.generateSessionId();
-    const session = new EditingSession(sessionId);
+    const session = new EditingSession(sessionId, { ...this.options, fps: fps ?? this.options.fps });
+    session.markDirty(); // 저장소가 있으면 첫 요청 후 바로 저장
     this.sessions.set(sessionId, session);
     return sessionId;
   }
@@ -255,20 +707,82 @@ export class MCPVideoEditingServer {
     return this.sessions.delete(sessionId);
   }
 
+  // 렌더링 작업 관리자
+  getRenderJobs(): RenderJobManager {
+    return this.renderJobs;
+  }
+
+  // 저장소의 모든 프로젝트를 세션으로 복원 (서버 시작 시 호출)
+  async restoreSessions(): Promise<string[]> {
+    if (!this.sessionStore) return [];
+
+    const restored: string[] = [];
+    for (const sessionId of await this.sessionStore.list()) {
+      try {
+        const session = await this.loadSession(sessionId);
+        if (session) restored.push(session.getSessionId());
+      } catch (error) {
+        console.error(`Failed to restore session ${sessionId}:`, error);
+      }
+    }
+    return restored;
+  }
+
+  // 세션을 저장소에 저장
+  async saveSession(sessionId: string): Promise<string> {
+    const session = this.getSession(sessionId);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+    if (!this.sessionStore) throw new MCPError(MCPErrorCode.InternalError, 'Session store not configured');
+
+    const projectPath = await this.sessionStore.save(session.exportProject());
+    session.markSaved();
+    return projectPath;
+  }
+
+  // 저장소에서 세션 불러오기 (메모리의 같은 세션은 저장된 상태로 교체)
+  async loadSession(sessionId: string): Promise<EditingSession | undefined> {
+    if (!this.sessionStore) throw new MCPError(MCPErrorCode.InternalError, 'Session store not configured');
+
+    const raw = await this.sessionStore.load(sessionId);
+    if (raw === undefined) return undefined;
+
+    // 이전 버전 파일은 마이그레이션 후 검증, 문제는 구조화된 목록으로 전달
+    let data: SessionProjectData;
+    try {
+      data = parseProjectData(raw, sessionId);
+    } catch (error) {
+      if (error instanceof ProjectValidationError) {
+        throw new MCPError(MCPErrorCode.InvalidParams, error.message, { issues: error.issues });
+      }
+      throw error;
+    }
+
+    // 저장된 세션 ID로 복원 (v0 파일처럼 ID가 없으면 요청한 ID)
+    const restoredId = data.sessionId || sessionId;
+    const session = new EditingSession(restoredId, { ...this.options, fps: data.timeline?.fps });
+    session.importProject(data);
+    this.sessions.set(restoredId, session);
+    return session;
+  }
+
   // MCP 요청 처리
   async handleRequest(request: MCPRequest): Promise<MCPResponse> {
     try {
       const result = await this.processRequest(request);
+      await this.autosaveSession(request.params?.sessionId ?? result.sessionId);
       return {
+        jsonrpc: '2.0',
         id: request.id,
         result
       };
     } catch (error) {
       return {
+        jsonrpc: '2.0',
         id: request.id,
         error: {
-          code: -1,
-          message: error instanceof Error ? error.message : 'Unknown error'
+          code: error instanceof MCPError ? error.code : MCPErrorCode.InternalError,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          data: error instanceof MCPError ? error.data : undefined
         }
       };
     }
@@ -276,15 +790,21 @@ export class MCPVideoEditingServer {
 
   // 요청 처리 로직 - 간소화된 기본 편집 도구들
   private async processRequest(request: MCPRequest): Promise<ResponseResult> {
-    const { method, params } = request;
+    const { method, params = {} } = request;
 
     switch (method) {
       // === 세션 관리 ===
       case 'session.create':
-        return { sessionId: this.createSession() };
+        return { sessionId: this.createSession(params.fps) };
 
       case 'session.delete':
-        return { success: this.deleteSession(params.sessionId!) };
+        return await this.handleSessionDelete(params);
+
+      case 'session.save':
+        return await this.handleSessionSave(params);
+
+      case 'session.load':
+        return await this.handleSessionLoad(params);
 
       case 'session.list':
         return { sessions: Array.from(this.sessions.keys()) };
@@ -321,6 +841,39 @@ export class MCPVideoEditingServer {
       case 'edit.delete_clip':
         return this.handleDeleteClip(params);
 
+      case 'edit.ripple_delete':
+        return this.handleRippleDelete(params);
+
+      case 'edit.ripple_trim':
+        return this.handleRippleTrim(params);
+
+      case 'edit.roll':
+        return this.handleRoll(params);
+
+      case 'edit.slip':
+        return this.handleSlip(params);
+
+      case 'edit.slide':
+        return this.handleSlide(params);
+
+      case 'edit.find_gaps':
+        return this.handleFindGaps(params);
+
+      case 'edit.close_gaps':
+        return this.handleCloseGaps(params);
+
+      case 'edit.add_transition':
+        return this.handleAddTransition(params);
+
+      case 'edit.remove_transition':
+        return this.handleRemoveTransition(params);
+
+      case 'edit.apply_effect':
+        return this.handleApplyEffect(params);
+
+      case 'edit.remove_effect':
+        return this.handleRemoveEffect(params);
+
       case 'edit.set_properties':
         return this.handleSetProperties(params);
 
@@ -330,12 +883,42 @@ export class MCPVideoEditingServer {
       case 'edit.get_timeline':
         return this.handleGetTimeline(params);
 
+      case 'edit.add_keyframe':
+        return this.handleAddKeyframe(params);
+
+      case 'edit.remove_keyframe':
+        return this.handleRemoveKeyframe(params);
+
+      case 'edit.list_keyframes':
+        return this.handleListKeyframes(params);
+
+      case 'edit.undo':
+        return this.handleUndo(params);
+
+      case 'edit.redo':
+        return this.handleRedo(params);
+
+      case 'edit.history':
+        return this.handleHistory(params);
+
       // === 에이전트 협업 ===
       case 'agent.register':
         return this.handleAgentRegister(params);
 
       case 'agent.submit_asset':
-        return this.handleSubmitAsset(params);
+        return await this.handleSubmitAsset(params);
+
+      case 'agent.list_assets':
+        return this.handleListAssets(params);
+
+      case 'agent.get_asset':
+        return this.handleGetAsset(params);
+
+      case 'agent.replace_asset':
+        return await this.handleReplaceAsset(params);
+
+      case 'agent.delete_asset':
+        return this.handleDeleteAsset(params);
 
       case 'agent.submit_directives':
         return this.handleSubmitDirectives(params);
@@ -346,12 +929,82 @@ export class MCPVideoEditingServer {
       case 'agent.execute_next':
         return await this.handleExecuteNext(params);
 
+      case 'agent.execute_all':
+        return await this.handleExecuteAll(params);
+
+      case 'agent.retry_directive':
+        return this.handleRetryDirective(params);
+
+      case 'agent.preview_directives':
+        return await this.handlePreviewDirectives(params);
+
       // === 기본 렌더링 ===
       case 'render.export':
         return this.handleExport(params);
 
+      case 'render.status':
+        return this.handleRenderStatus(params);
+
+      case 'render.cancel':
+        return this.handleRenderCancel(params);
+
+      case 'render.list':
+        return this.handleRenderList(params);
+
       default:
-        throw new Error(`Unknown method: ${method}`);
+        throw new MCPError(MCPErrorCode.MethodNotFound, `Unknown method: ${method}`);
+    }
+  }
+
+  // === 세션 저장/불러오기 구현 ===
+
+  private async handleSessionDelete(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId } = params;
+    const success = this.deleteSession(sessionId!);
+    // 저장된 프로젝트도 삭제해야 재시작 시 다시 복원되지 않음
+    const deletedProject = this.sessionStore ? await this.sessionStore.delete(sessionId!) : false;
+    return { success: success || deletedProject };
+  }
+
+  private async handleSessionSave(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId } = params;
+    const projectPath = await this.saveSession(sessionId!);
+    return {
+      success: true,
+      sessionId,
+      projectPath,
+      savedAt: this.getSession(sessionId!)!.getLastSaved().toISOString()
+    };
+  }
+
+  private async handleSessionLoad(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId } = params;
+    const session = await this.loadSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Project not found');
+
+    const timeline = session.getTimelineManager();
+    return {
+      success: true,
+      sessionId,
+      tracks: timeline.getTracks(),
+      totalDuration: timeline.getTotalDuration(),
+      fps: timeline.getFps(),
+      mediaFiles: session.getMediaManager().getMediaFiles(),
+      savedAt: session.getLastSaved().toISOString()
+    };
+  }
+
+  // 변경된 세션 자동 저장 (실패해도 요청은 성공으로 처리)
+  private async autosaveSession(sessionId?: string): Promise<void> {
+    if (!this.sessionStore || !this.autosave || !sessionId) return;
+
+    const session = this.getSession(sessionId);
+    if (!session?.isDirtyState()) return;
+
+    try {
+      await this.saveSession(sessionId);
+    } catch (error) {
+      console.error(`Autosave failed for session ${sessionId}:`, error);
     }
   }
 
@@ -360,10 +1013,10 @@ export class MCPVideoEditingServer {
   private async handleMediaUpload(params: RequestParams): Promise<ResponseResult> {
     const { sessionId, fileData, fileName, fileType } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    const file = new File([fileData!], fileName!, { type: fileType! });
-    const mediaFile = await session.getMediaManager().uploadFile(file);
+    const bytes = typeof fileData === 'string' ? this.decodeBase64(fileData) : fileData!;
+    const mediaFile = await session.getMediaManager().uploadData(bytes, fileName!, fileType!);
     
     session.markDirty();
     return { mediaFile };
@@ -372,7 +1025,7 @@ export class MCPVideoEditingServer {
   private handleMediaList(params: RequestParams): ResponseResult {
     const { sessionId } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
     return { mediaFiles: session.getMediaManager().getMediaFiles() };
   }
@@ -380,7 +1033,16 @@ export class MCPVideoEditingServer {
   private handleMediaDelete(params: RequestParams): ResponseResult {
     const { sessionId, mediaId } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    // 타임라인에서 사용 중인 파일은 삭제하지 않음 (프로젝트 파일에 끊어진 참조가 남지 않도록)
+    const usedBy = session.getTimelineManager().getTracks()
+      .flatMap(track => track.items)
+      .filter(item => item.mediaId === mediaId)
+      .map(item => item.id);
+    if (usedBy.length > 0) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Media file is used by ${usedBy.length} timeline item(s)`, { itemIds: usedBy });
+    }
 
     const success = session.getMediaManager().deleteMediaFile(mediaId!);
     if (success) session.markDirty();
@@ -391,20 +1053,25 @@ export class MCPVideoEditingServer {
   private handleMediaInfo(params: RequestParams): ResponseResult {
     const { sessionId, mediaId } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
     const mediaFile = session.getMediaManager().getMediaFile(mediaId!);
     return { mediaFile };
   }
 
   private handleCreateTrack(params: RequestParams): ResponseResult {
-    const { sessionId, name, type } = params;
+    const { sessionId, name, type, overlapPolicy } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    if (overlapPolicy !== undefined && !OVERLAP_POLICIES.includes(overlapPolicy as OverlapPolicy)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unsupported overlap policy: ${overlapPolicy}`, { supported: OVERLAP_POLICIES });
+    }
 
-    // overlay 타입을 video로 변환
+    // overlay 타입을 video로 변환 (겹쳐 쌓는 트랙이므로 기본 정책은 allow)
     const trackType = type === 'overlay' ? 'video' : type as 'video' | 'audio' | 'subtitle';
-    const track = session.getTimelineManager().createTrack(name!, trackType);
+    const policy = (overlapPolicy as OverlapPolicy | undefined) ?? (type === 'overlay' ? 'allow' : 'overwrite');
+    const track = session.getTimelineManager().createTrack(name!, trackType, policy);
     session.markDirty();
     
     return { track };
@@ -413,17 +1080,24 @@ export class MCPVideoEditingServer {
   private handleAddMedia(params: RequestParams): ResponseResult {
     const { sessionId, trackId, mediaId, startFrame } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
     const mediaFile = session.getMediaManager().getMediaFile(mediaId!);
-    if (!mediaFile) throw new Error('Media file not found');
+    if (!mediaFile) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Media file not found');
 
+    const fps = session.getTimelineManager().getFps();
+    // 비디오/오디오는 원본 길이를 트림 한계로 기록
+    const sourceDurationInFrames = mediaFile.type !== 'image' && mediaFile.metadata.duration
+      ? Math.max(1, TimeUtils.secondsToFrames(mediaFile.metadata.duration, fps))
+      : undefined;
     const mediaItem: MediaItem = {
       id: this.generateId(),
       type: mediaFile.type,
       src: mediaFile.url,
+      mediaId: mediaFile.id,
       startFrame: startFrame || 0,
-      durationInFrames: Math.floor((mediaFile.metadata.duration || 5) * 30),
+      durationInFrames: sourceDurationInFrames ?? Math.max(1, TimeUtils.secondsToFrames(mediaFile.metadata.duration || 5, fps)),
+      ...(mediaFile.type !== 'image' && { sourceStartFrame: 0, sourceDurationInFrames }),
       x: params.x || 0,
       y: params.y || 0,
       width: params.width || mediaFile.metadata.width || 1280,
@@ -433,38 +1107,43 @@ export class MCPVideoEditingServer {
       rotation: params.rotation || 0
     };
 
-    const success = session.getTimelineManager().addItemToTrack(trackId!, mediaItem);
+    const timelineManager = session.getTimelineManager();
+    const success = this.placeOnTimeline(() => timelineManager.addItemToTrack(trackId!, mediaItem));
     if (success) session.markDirty();
     
-    return { success, mediaItem };
+    return { success, mediaItem, affectedItems: success ? timelineManager.getLastSideEffects() : [] };
   }
 
   private handleMoveClip(params: RequestParams): ResponseResult {
     const { sessionId, trackId, itemId, newStartFrame, newTrackId } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    const success = session.getTimelineManager().moveItem(trackId!, itemId!, newStartFrame!, newTrackId);
+    const timelineManager = session.getTimelineManager();
+    const success = this.placeOnTimeline(() => timelineManager.moveItem(trackId!, itemId!, newStartFrame!, newTrackId));
     if (success) session.markDirty();
     
-    return { success };
+    return { success, affectedItems: success ? timelineManager.getLastSideEffects() : [] };
   }
 
   private handleTrimClip(params: RequestParams): ResponseResult {
     const { sessionId, trackId, itemId, startFrame, endFrame } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    const success = session.getTimelineManager().trimItem(trackId!, itemId!, startFrame, endFrame);
+    const timelineManager = session.getTimelineManager();
+    const success = timelineManager.trimItem(trackId!, itemId!, startFrame, endFrame);
     if (success) session.markDirty();
     
-    return { success };
+    // 원본 길이로 제한된 실제 결과 반환
+    const mediaItem = timelineManager.getTrack(trackId!)?.items.find(item => item.id === itemId);
+    return { success, mediaItem };
   }
 
   private handleSplitClip(params: RequestParams): ResponseResult {
     const { sessionId, trackId, itemId, splitFrame } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
     const success = session.getTimelineManager().splitItem(trackId!, itemId!, splitFrame!);
     if (success) session.markDirty();
@@ -472,157 +1151,836 @@ export class MCPVideoEditingServer {
     return { success };
   }
 
-  private handleDeleteClip(params: RequestParams): ResponseResult {
-    const { sessionId, trackId, itemId } = params;
+  private handleRippleDelete(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, allTracks } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    const success = session.getTimelineManager().removeItemFromTrack(trackId!, itemId!);
+    const timelineManager = session.getTimelineManager();
+    const success = timelineManager.rippleDelete(trackId!, itemId!, allTracks === true);
     if (success) session.markDirty();
-    
-    return { success };
+
+    return { success, track: timelineManager.getTrack(trackId!), affectedItems: success ? timelineManager.getLastSideEffects() : [] };
   }
 
-  private handleSetProperties(params: RequestParams): ResponseResult {
-    const { sessionId, trackId, itemId, x, y, width, height, opacity, scale, rotation } = params;
+  private handleRippleTrim(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, startFrame, endFrame, allTracks } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
-
-    const track = session.getTimelineManager().getTrack(trackId!);
-    if (!track) throw new Error('Track not found');
-
-    const item = track.items.find(i => i.id === itemId);
-    if (!item) throw new Error('Item not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    // 속성 업데이트
-    if (x !== undefined) item.x = x;
-    if (y !== undefined) item.y = y;
-    if (width !== undefined) item.width = width;
-    if (height !== undefined) item.height = height;
-    if (opacity !== undefined) item.opacity = opacity;
-    if (scale !== undefined) item.scale = scale;
-    if (rotation !== undefined) item.rotation = rotation;
+    const timelineManager = session.getTimelineManager();
+    const success = timelineManager.rippleTrim(trackId!, itemId!, startFrame, endFrame, allTracks === true);
+    if (success) session.markDirty();
 
-    session.markDirty();
-    return { success: true, mediaItem: item };
+    return { success, track: timelineManager.getTrack(trackId!), affectedItems: success ? timelineManager.getLastSideEffects() : [] };
   }
 
-  private handleAddText(params: RequestParams): ResponseResult {
-    const { sessionId, text, startFrame, x, y, width, height, fontSize, color, fontFamily } = params;
+  private handleRoll(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, editFrame } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    // 텍스트 오버레이용 트랙 찾기 또는 생성
-    let textTrack = session.getTimelineManager().getTracks().find(t => t.name.includes('Text'));
-    if (!textTrack) {
-      textTrack = session.getTimelineManager().createTrack('Text Overlay', 'video');
+    if (!Number.isInteger(editFrame) || editFrame! < 0) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'editFrame must be a non-negative integer');
     }
 
-    const textItem: MediaItem = {
-      id: this.generateId(),
-      type: 'image', // 텍스트를 이미지로 렌더링
-      src: this.generateTextDataURL(text!, { fontSize, color, fontFamily }),
-      startFrame: startFrame || 0,
-      durationInFrames: 90, // 3초 기본
-      x: x || 50,
-      y: y || 50,
-      width: width || 400,
-      height: height || 100,
-      opacity: 1
-    };
-
-    const success = session.getTimelineManager().addItemToTrack(textTrack.id, textItem);
+    const timelineManager = session.getTimelineManager();
+    const success = timelineManager.rollEdit(trackId!, itemId!, editFrame!);
     if (success) session.markDirty();
-    
-    return { success, mediaItem: textItem, track: textTrack };
+
+    return { success, track: timelineManager.getTrack(trackId!), affectedItems: success ? timelineManager.getLastSideEffects() : [] };
   }
 
-  private handleGetTimeline(params: RequestParams): ResponseResult {
-    const { sessionId } = params;
+  private handleSlip(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, offset } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    return {
-      tracks: session.getTimelineManager().getTracks(),
-      currentFrame: session.getTimelineManager().getCurrentFrame(),
-      totalDuration: session.getTimelineManager().getTotalDuration()
-    };
-  }
+    if (!Number.isInteger(offset)) throw new MCPError(MCPErrorCode.InvalidParams, 'offset must be an integer');
 
-  // === 에이전트 협업 구현 ===
+    const timelineManager = session.getTimelineManager();
+    const success = timelineManager.slipItem(trackId!, itemId!, offset!);
+    if (success) session.markDirty();
 
-  private handleAgentRegister(params: RequestParams): ResponseResult {
-    const { sessionId, agentId, agentType } = params;
+    return { success, track: timelineManager.getTrack(trackId!) };
+  }
+
+  private handleSlide(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, offset } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    session.registerAgent(agentType!, agentId!);
-    return { success: true, message: `Agent ${agentId} registered as ${agentType}` };
+    if (!Number.isInteger(offset)) throw new MCPError(MCPErrorCode.InvalidParams, 'offset must be an integer');
+
+    const timelineManager = session.getTimelineManager();
+    const success = timelineManager.slideItem(trackId!, itemId!, offset!);
+    if (success) session.markDirty();
+
+    return { success, track: timelineManager.getTrack(trackId!), affectedItems: success ? timelineManager.getLastSideEffects() : [] };
   }
 
-  private handleSubmitAsset(params: RequestParams): ResponseResult {
-    const { sessionId, asset } = params;
+  private handleFindGaps(params: RequestParams): ResponseResult {
+    const { sessionId, trackId } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    session.addGeneratedAsset(asset!);
-    return { success: true, message: `Asset ${asset!.id} received` };
+    const timelineManager = session.getTimelineManager();
+    if (trackId && !timelineManager.getTrack(trackId)) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Track not found');
+
+    return { gaps: timelineManager.findGaps(trackId) };
   }
 
-  private handleSubmitDirectives(params: RequestParams): ResponseResult {
-    const { sessionId, directives } = params;
+  private handleCloseGaps(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, trackIds } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    session.addDirectives(directives!);
-    return { 
-      success: true, 
-      message: `${directives!.length} directives received`,
-      editingStatus: session.getEditingStatus()
+    const timelineManager = session.getTimelineManager();
+    const targetIds = trackIds ?? (trackId ? [trackId] : undefined);
+    const missing = targetIds?.filter(id => !timelineManager.getTrack(id)) ?? [];
+    if (missing.length > 0) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Track not found', { trackIds: missing });
+    // 지정한 트랙이 잠겨 있으면 거부 (지정하지 않으면 잠긴 트랙은 건너뜀)
+    const locked = targetIds?.filter(id => timelineManager.getTrack(id)!.isLocked) ?? [];
+    if (locked.length > 0) throw new MCPError(MCPErrorCode.InvalidParams, `Track is locked: ${locked.join(', ')}`, { trackIds: locked });
+
+    const success = timelineManager.closeGaps(targetIds);
+    if (success) session.markDirty();
+
+    return {
+      success,
+      message: success ? undefined : 'No gaps to close',
+      gaps: timelineManager.findGaps(),
+      affectedItems: success ? timelineManager.getLastSideEffects() : []
     };
   }
 
-  private handleGetStatus(params: RequestParams): ResponseResult {
-    const { sessionId } = params;
+  private handleAddTransition(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, transitionType = 'crossfade', durationInFrames, alignment = 'center', direction } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    return { editingStatus: session.getEditingStatus() };
+    const timelineManager = session.getTimelineManager();
+    const track = timelineManager.getTrack(trackId!);
+    if (!track) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Track not found');
+
+    const transition = this.createTransition(timelineManager, track, itemId!, {
+      type: transitionType,
+      durationInFrames: durationInFrames ?? TimeUtils.secondsToFrames(0.5, timelineManager.getFps()),
+      alignment,
+      direction
+    });
+    const success = timelineManager.addTransition(track.id, transition);
+    if (success) session.markDirty();
+
+    return { success, transition, track };
   }
 
-  private async handleExecuteNext(params: RequestParams): Promise<ResponseResult> {
-    const { sessionId } = params;
+  private handleRemoveTransition(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, transitionId } = params;
     const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    const directive = session.getNextDirective();
-    if (!directive) {
-      return { success: false, message: 'No pending directives' };
+    const timelineManager = session.getTimelineManager();
+    const track = timelineManager.getTrack(trackId!);
+    if (!track) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Track not found');
+    if (!track.transitions?.some(transition => transition.id === transitionId)) {
+      throw new MCPError(MCPErrorCode.ResourceNotFound, 'Transition not found');
     }
 
-    try {
-      await this.executeDirective(session, directive);
-      session.markDirectiveCompleted(directive.id);
-      return { 
-        success: true, 
-        message: `Directive ${directive.id} completed: ${directive.description}`,
-        editingStatus: session.getEditingStatus()
-      };
-    } catch (error) {
-      return { 
-        success: false, 
-        message: `Failed to execute directive: ${error}` 
-      };
+    const success = timelineManager.removeTransition(track.id, transitionId!);
+    if (success) session.markDirty();
+
+    return { success, track };
+  }
+
+  // 아이템과 바로 뒤에 맞닿은 아이템 사이의 트랜지션 생성 (편집 API와 add_transition 지시사항 공용)
+  private createTransition(
+    timelineManager: TimelineManager,
+    track: Track,
+    itemId: string,
+    options: { type: string; durationInFrames: number; alignment: string; direction?: string }
+  ): Transition {
+    const { type, durationInFrames, alignment, direction } = options;
+    if (!TRANSITION_TYPES.includes(type as TransitionType)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown transition type: ${type}`, { supported: TRANSITION_TYPES });
+    }
+    if (!TRANSITION_ALIGNMENTS.includes(alignment as TransitionAlignment)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown transition alignment: ${alignment}`, { supported: TRANSITION_ALIGNMENTS });
+    }
+    if (direction !== undefined && !TRANSITION_DIRECTIONS.includes(direction as TransitionDirection)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown transition direction: ${direction}`, { supported: TRANSITION_DIRECTIONS });
     }
+
+    const item = track.items.find(candidate => candidate.id === itemId);
+    if (!item) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Item not found');
+    const next = track.items.find(candidate => candidate.startFrame === item.startFrame + item.durationInFrames);
+    if (!next) throw new MCPError(MCPErrorCode.InvalidParams, `No clip starts where ${itemId} ends`);
+
+    const transition: Transition = {
+      id: this.generateId(),
+      type: type as TransitionType,
+      fromItemId: item.id,
+      toItemId: next.id,
+      durationInFrames,
+      alignment: alignment as TransitionAlignment
+    };
+    if (direction !== undefined) transition.direction = direction as TransitionDirection;
+
+    const problem = timelineManager.checkTransition(track.id, transition);
+    if (problem) throw new MCPError(MCPErrorCode.InvalidParams, problem);
+    return transition;
   }
 
-  // 지시사항 실행
-  private async executeDirective(session: EditingSession, directive: EditingDirective): Promise<void> {
-    const { type, parameters } = directive;
+  private handleApplyEffect(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, effectType, amount, color, tolerance, preset } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
 
-    switch (type) {
-      case 'cut_sequence':
-        // 구간 자르기
+    const timelineManager = session.getTimelineManager();
+    const item = this.findClip(timelineManager, trackId!, itemId!);
+    if (item.type === 'audio') throw new MCPError(MCPErrorCode.InvalidParams, 'Effects can only be applied to visual clips');
+
+    const effect = this.createEffect({ type: effectType as EffectType, amount, color, tolerance, preset: preset as ColorPreset });
+    const success = timelineManager.applyEffect([{ trackId: trackId!, itemId: itemId! }], effect);
+    if (success) session.markDirty();
+
+    return { success, mediaItem: item };
+  }
+
+  private handleRemoveEffect(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, effectType } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const timelineManager = session.getTimelineManager();
+    const item = this.findClip(timelineManager, trackId!, itemId!);
+    if (!item.effects?.some(effect => effect.type === effectType)) {
+      throw new MCPError(MCPErrorCode.ResourceNotFound, `Effect not found: ${effectType}`);
+    }
+
+    const success = timelineManager.removeEffect(trackId!, itemId!, effectType as EffectType);
+    if (success) session.markDirty();
+
+    return { success, mediaItem: item };
+  }
+
+  private findClip(timelineManager: TimelineManager, trackId: string, itemId: string): MediaItem {
+    const track = timelineManager.getTrack(trackId);
+    if (!track) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Track not found');
+    const item = track.items.find(candidate => candidate.id === itemId);
+    if (!item) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Item not found');
+    return item;
+  }
+
+  // 효과 검증 후 지정된 값만 모음 (편집 API와 apply_effect 지시사항 공용)
+  private createEffect(source: ClipEffect): ClipEffect {
+    if (!EFFECT_TYPES.includes(source.type)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown effect type: ${source.type}`, { supported: EFFECT_TYPES });
+    }
+    const effect = Object.fromEntries(Object.entries(source).filter(([, value]) => value !== undefined)) as unknown as ClipEffect;
+    const problem = validateEffect(effect);
+    if (problem) throw new MCPError(MCPErrorCode.InvalidParams, problem);
+    return effect;
+  }
+
+  private handleDeleteClip(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const success = session.getTimelineManager().removeItemFromTrack(trackId!, itemId!);
+    if (success) session.markDirty();
+    
+    return { success };
+  }
+
+  private handleSetProperties(params: RequestParams): ResponseResult {
+    const { sessionId, trackId, itemId, x, y, width, height, opacity, scale, rotation } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const track = session.getTimelineManager().getTrack(trackId!);
+    if (!track) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Track not found');
+
+    const item = track.items.find(i => i.id === itemId);
+    if (!item) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Item not found');
+
+    // 속성 업데이트
+    if (x !== undefined) item.x = x;
+    if (y !== undefined) item.y = y;
+    if (width !== undefined) item.width = width;
+    if (height !== undefined) item.height = height;
+    if (opacity !== undefined) item.opacity = opacity;
+    if (scale !== undefined) item.scale = scale;
+    if (rotation !== undefined) item.rotation = rotation;
+
+    session.markDirty();
+    return { success: true, mediaItem: item };
+  }
+
+  private handleAddText(params: RequestParams): ResponseResult {
+    const { sessionId, text, startFrame = 0, durationInFrames, x, y, width, height } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+    if (typeof text !== 'string') throw new MCPError(MCPErrorCode.InvalidParams, 'text is required');
+    if (durationInFrames !== undefined && !(durationInFrames > 0)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'durationInFrames must be positive');
+    }
+
+    const textStyle = this.createTextStyle(params);
+    const fps = session.getTimelineManager().getFps();
+    return this.placeTextItem(session, {
+      id: this.generateId(),
+      type: 'text',
+      src: '',
+      text,
+      textStyle,
+      startFrame,
+      durationInFrames: durationInFrames ?? TimeUtils.secondsToFrames(3, fps), // 3초 기본
+      x: x ?? 50,
+      y: y ?? 50,
+      width: width ?? 400,
+      height: height ?? 100,
+      opacity: 1
+    });
+  }
+
+  // 텍스트 스타일 검증 후 지정된 값만 모음 (나머지는 렌더링 시 기본값)
+  private createTextStyle(source: Omit<TextStyle, 'align'> & { align?: string }): TextStyle {
+    const { fontFamily, fontSize, fontWeight, color, align, stroke, shadow, background } = source;
+    if (align !== undefined && !TEXT_ALIGNS.includes(align as TextAlign)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown text alignment: ${align}`, { supported: TEXT_ALIGNS });
+    }
+    if (fontSize !== undefined && !(fontSize > 0)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'fontSize must be positive');
+    }
+
+    const style: TextStyle = { fontFamily, fontSize, fontWeight, color, align: align as TextAlign | undefined, stroke, shadow, background };
+    return Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined)) as TextStyle;
+  }
+
+  // 텍스트 아이템을 텍스트 트랙에 배치 (edit.add_text와 add_text 지시사항 공용)
+  private placeTextItem(session: EditingSession, textItem: MediaItem): ResponseResult {
+    const timelineManager = session.getTimelineManager();
+
+    // 텍스트 오버레이용 트랙 찾기 또는 생성 (자막/타이틀을 겹쳐 쌓을 수 있도록 allow)
+    const textTrack = timelineManager.getTracks().find(t => t.name.includes('Text'))
+      ?? timelineManager.createTrack('Text Overlay', 'video', 'allow');
+
+    const success = this.placeOnTimeline(() => timelineManager.addItemToTrack(textTrack.id, textItem));
+    if (success) session.markDirty();
+    
+    return { success, mediaItem: textItem, track: textTrack, affectedItems: success ? timelineManager.getLastSideEffects() : [] };
+  }
+
+  private handleGetTimeline(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    return {
+      tracks: session.getTimelineManager().getTracks(),
+      currentFrame: session.getTimelineManager().getCurrentFrame(),
+      totalDuration: session.getTimelineManager().getTotalDuration(),
+      fps: session.getTimelineManager().getFps()
+    };
+  }
+
+  // === 키프레임 ===
+
+  private handleAddKeyframe(params: RequestParams): ResponseResult {
+    const { sessionId, itemId, property, frame, value, easing, bezier, steps, spring } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const item = this.requireTimelineItem(session, itemId!);
+    this.requireAnimatableProperty(property);
+    if (typeof frame !== 'number' || !Number.isInteger(frame) || frame < 0) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'frame must be a non-negative integer (relative to clip start)');
+    }
+    if (POINT_PROPERTIES.includes(property as AnimatableProperty)) {
+      if (!isPoint2D(value)) throw new MCPError(MCPErrorCode.InvalidParams, `${property} value must be { x, y }`);
+    } else if (COLOR_PROPERTIES.includes(property as AnimatableProperty)) {
+      if (item.type !== 'text') throw new MCPError(MCPErrorCode.InvalidParams, `${property} can only be animated on text items`);
+      if (!isColor(value)) throw new MCPError(MCPErrorCode.InvalidParams, `${property} value must be a color (#rrggbb, rgb(), rgba(), hsl(), hsla())`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'value must be a number');
+    }
+    if (easing !== undefined && !KEYFRAME_EASINGS.includes(easing as KeyframeEasing)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unsupported easing: ${easing}`, { supported: KEYFRAME_EASINGS });
+    }
+
+    const keyframe: Keyframe = { frame, property: property!, value: value!, easing: easing as KeyframeEasing | undefined };
+    if (easing === 'cubic-bezier') keyframe.bezier = this.parseBezier(bezier);
+    if (easing === 'step' && steps !== undefined) {
+      if (!Number.isInteger(steps) || steps < 1) throw new MCPError(MCPErrorCode.InvalidParams, 'steps must be a positive integer');
+      keyframe.steps = steps;
+    }
+    if (easing === 'spring' && spring) keyframe.spring = this.parseSpringConfig(spring);
+
+    const keyframeManager = session.getKeyframeManager();
+    keyframeManager.addKeyframe(itemId!, keyframe);
+    session.markDirty();
+
+    return { success: true, keyframes: { [itemId!]: keyframeManager.getKeyframes(itemId!) } };
+  }
+
+  private handleRemoveKeyframe(params: RequestParams): ResponseResult {
+    const { sessionId, itemId, property, frame } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const keyframeManager = session.getKeyframeManager();
+    const success = keyframeManager.removeKeyframe(itemId!, frame!, property!);
+    if (success) session.markDirty();
+
+    return { success, keyframes: { [itemId!]: keyframeManager.getKeyframes(itemId!) } };
+  }
+
+  private handleListKeyframes(params: RequestParams): ResponseResult {
+    const { sessionId, itemId, property } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const keyframeManager = session.getKeyframeManager();
+    if (itemId) {
+      return { keyframes: { [itemId]: keyframeManager.getKeyframes(itemId, property) } };
+    }
+    return { keyframes: keyframeManager.export() };
+  }
+
+  // 타임라인 배치 - reject 정책 트랙의 겹침 오류를 충돌 아이템 목록과 함께 MCP 오류로 변환
+  private placeOnTimeline(place: () => boolean): boolean {
+    try {
+      return place();
+    } catch (error) {
+      if (error instanceof TimelineOverlapError) {
+        throw new MCPError(MCPErrorCode.InvalidParams, error.message, {
+          trackId: error.trackId,
+          conflictingItemIds: error.conflictingItemIds
+        });
+      }
+      throw error;
+    }
+  }
+
+  private requireTimelineItem(session: EditingSession, itemId: string): MediaItem {
+    const item = session.getTimelineManager().getTracks()
+      .flatMap(track => track.items)
+      .find(candidate => candidate.id === itemId);
+    if (!item) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Timeline item not found');
+    return item;
+  }
+
+  // cubic-bezier 제어점 - x는 0~1 (Remotion Easing.bezier 제약)
+  private parseBezier(bezier?: number[]): [number, number, number, number] {
+    if (!Array.isArray(bezier) || bezier.length !== 4 || !bezier.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'bezier must be [x1, y1, x2, y2]');
+    }
+    const [x1, y1, x2, y2] = bezier;
+    if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'bezier x1 and x2 must be between 0 and 1');
+    }
+    return [x1, y1, x2, y2];
+  }
+
+  private parseSpringConfig(spring: Partial<SpringConfig>): Partial<SpringConfig> {
+    const config: Partial<SpringConfig> = {};
+    for (const key of ['damping', 'mass', 'stiffness'] as const) {
+      const value = spring[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !(value > 0)) {
+        throw new MCPError(MCPErrorCode.InvalidParams, `spring.${key} must be a positive number`);
+      }
+      config[key] = value;
+    }
+    if (spring.overshootClamping !== undefined) config.overshootClamping = Boolean(spring.overshootClamping);
+    return config;
+  }
+
+  private requireAnimatableProperty(property?: string): void {
+    if (!ANIMATABLE_PROPERTIES.includes(property as AnimatableProperty)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Property cannot be animated: ${property}`, { supported: ANIMATABLE_PROPERTIES });
+    }
+  }
+
+  private handleUndo(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const timeline = session.getTimelineManager();
+    const success = timeline.undo();
+    if (success) session.markDirty();
+
+    return {
+      success,
+      historyCursor: timeline.getHistory().cursor,
+      canUndo: timeline.canUndo(),
+      canRedo: timeline.canRedo()
+    };
+  }
+
+  private handleRedo(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const timeline = session.getTimelineManager();
+    const success = timeline.redo();
+    if (success) session.markDirty();
+
+    return {
+      success,
+      historyCursor: timeline.getHistory().cursor,
+      canUndo: timeline.canUndo(),
+      canRedo: timeline.canRedo()
+    };
+  }
+
+  private handleHistory(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const timeline = session.getTimelineManager();
+    const { operations, cursor } = timeline.getHistory();
+
+    return {
+      history: operations,
+      historyCursor: cursor,
+      canUndo: timeline.canUndo(),
+      canRedo: timeline.canRedo()
+    };
+  }
+
+  // === 에이전트 협업 구현 ===
+
+  private handleAgentRegister(params: RequestParams): ResponseResult {
+    const { sessionId, agentId, agentType } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    session.registerAgent(agentType!, agentId!);
+    return { success: true, message: `Agent ${agentId} registered as ${agentType}` };
+  }
+
+  // 에셋 제출 - 미디어 라이브러리에 바로 등록 (같은 내용의 미디어 파일이 있으면 공유)
+  private async handleSubmitAsset(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId, asset } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    this.validateAsset(asset);
+    if (session.getGeneratedAsset(asset.id)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Asset already exists: ${asset.id} (use agent.replace_asset to update it)`);
+    }
+
+    const { mediaFile, deduplicated } = await this.registerAsset(session, asset);
+    return {
+      success: true,
+      mediaFile,
+      deduplicated,
+      message: deduplicated ? `Asset ${asset.id} received (same content as media ${mediaFile.id})` : `Asset ${asset.id} received`
+    };
+  }
+
+  private handleListAssets(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const assets = session.getGeneratedAssets().map(({ id, type, agentId, metadata }) => {
+      const mediaFile = session.getAssetMediaFile(id);
+      return { id, type, agentId, metadata, mediaId: mediaFile?.id, itemIds: this.findMediaItems(session, mediaFile).map(({ item }) => item.id) };
+    });
+    return { assets };
+  }
+
+  private handleGetAsset(params: RequestParams): ResponseResult {
+    const { sessionId, assetId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const asset = session.getGeneratedAsset(assetId!);
+    if (!asset) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Asset not found');
+    const mediaFile = session.getAssetMediaFile(asset.id);
+    return { asset, mediaFile, itemIds: this.findMediaItems(session, mediaFile).map(({ item }) => item.id) };
+  }
+
+  // 에셋 교체 - 새 데이터를 등록하고 이전 미디어를 쓰던 모든 클립의 원본을 바꿈
+  // 클립에서 사용 중이면 클립과 에셋의 미디어가 한 번의 실행 취소로 함께 복원됨
+  // 이전 미디어 파일은 실행 취소를 위해 라이브러리에 남김 (media.delete로 삭제)
+  private async handleReplaceAsset(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId, asset } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    this.validateAsset(asset);
+    const existing = session.getGeneratedAsset(asset.id);
+    if (!existing) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Asset not found');
+    if (asset.type !== existing.type) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Asset type cannot change: ${existing.type} -> ${asset.type}`);
+    }
+
+    const previous = session.getAssetMediaFile(asset.id);
+    const uses = this.findMediaItems(session, previous);
+    const locked = uses.filter(({ track }) => track.isLocked).map(({ item }) => item.id);
+    if (locked.length > 0) throw new MCPError(MCPErrorCode.InvalidParams, 'Asset is used on a locked track', { itemIds: locked });
+
+    const { mediaFile, deduplicated } = await this.importAssetMedia(session, asset);
+    const swapClips = previous !== undefined && previous.id !== mediaFile.id && uses.length > 0;
+    // 클립에서 사용 중이면 에셋의 미디어는 교체 편집이 바꿈 (클립에서 쓰지 않으면 바로 교체)
+    session.addGeneratedAsset({ ...asset, mediaId: swapClips ? previous.id : mediaFile.id });
+    if (swapClips) {
+      const timelineManager = session.getTimelineManager();
+      timelineManager.replaceMedia(previous.id, {
+        mediaId: mediaFile.id,
+        src: mediaFile.url,
+        sourceDurationInFrames: this.getSourceDuration(mediaFile, timelineManager.getFps())
+      }, asset.id);
+    }
+    session.markDirty();
+
+    const itemIds = previous?.id !== mediaFile.id ? uses.map(({ item }) => item.id) : [];
+    return { success: true, mediaFile, deduplicated, itemIds, message: `Asset ${asset.id} replaced in ${itemIds.length} clip(s)` };
+  }
+
+  // 에셋 삭제 - 타임라인이나 대기 중인 지시사항이 사용 중이면 거부, 다른 에셋과 공유하지 않는 미디어 파일도 함께 삭제
+  private handleDeleteAsset(params: RequestParams): ResponseResult {
+    const { sessionId, assetId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+    if (!session.getGeneratedAsset(assetId!)) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Asset not found');
+
+    const mediaFile = session.getAssetMediaFile(assetId!);
+    const usedBy = this.findMediaItems(session, mediaFile).map(({ item }) => item.id);
+    if (usedBy.length > 0) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Asset is used by ${usedBy.length} timeline item(s)`, { itemIds: usedBy });
+    }
+    const waiting = session.getEditingStatus().pendingDirectives
+      .filter(directiveId => session.getDirective(directiveId)?.parameters.assetId === assetId);
+    if (waiting.length > 0) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Asset is referenced by ${waiting.length} pending directive(s)`, { directiveIds: waiting });
+    }
+
+    session.removeGeneratedAsset(assetId!);
+    const shared = session.getGeneratedAssets().some(asset => session.getAssetMediaFile(asset.id) === mediaFile);
+    if (mediaFile && !shared) session.getMediaManager().deleteMediaFile(mediaFile.id);
+    session.markDirty();
+
+    return { success: true, message: `Asset ${assetId} deleted` };
+  }
+
+  // 에셋 형식 검증 (agent.submit_asset, agent.replace_asset)
+  private validateAsset(asset: GeneratedAsset | undefined): asserts asset is GeneratedAsset {
+    if (!asset || typeof asset.id !== 'string' || asset.id.length === 0) throw new MCPError(MCPErrorCode.InvalidParams, 'asset.id is required');
+    const expected = ASSET_MEDIA_TYPES[asset.type];
+    if (!expected) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown asset type: ${asset.type}`, { supported: Object.keys(ASSET_MEDIA_TYPES) });
+    }
+    if (!(typeof asset.data === 'string' && asset.data.length > 0) && !(asset.data instanceof ArrayBuffer)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'asset.data must be a URL, base64 data or bytes');
+    }
+    if (typeof asset.data === 'string' && !MEDIA_URL_PATTERN.test(asset.data) && !BASE64_DATA_PATTERN.test(asset.data)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'asset.data must be an http(s)/file URL, an absolute path or base64 data');
+    }
+    const { filename, mimeType } = asset.metadata ?? {};
+    if (typeof filename !== 'string' || typeof mimeType !== 'string') {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'asset.metadata requires filename and mimeType');
+    }
+    if (!mimeType.startsWith(`${expected}/`)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `${asset.type} asset must be ${expected} (got ${mimeType})`);
+    }
+  }
+
+  // 미디어 파일을 사용하는 타임라인 아이템
+  private findMediaItems(session: EditingSession, mediaFile?: MediaFile): { track: Track; item: MediaItem }[] {
+    if (!mediaFile) return [];
+    return session.getTimelineManager().getTracks().flatMap(track => track.items
+      .filter(item => item.mediaId === mediaFile.id)
+      .map(item => ({ track, item })));
+  }
+
+  // 지시사항 제출 - 지시사항마다 검증해 문제가 있는 것만 이유와 함께 거부하고 나머지는 등록
+  private handleSubmitDirectives(params: RequestParams): ResponseResult {
+    const { sessionId, directives } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+    if (!Array.isArray(directives)) throw new MCPError(MCPErrorCode.InvalidParams, 'directives must be an array');
+
+    const { accepted, rejected } = validateDirectiveBatch(directives, this.createDirectiveContext(session));
+    if (accepted.length > 0) session.addDirectives(accepted);
+    return { 
+      success: rejected.length === 0, 
+      message: `${accepted.length} directives received, ${rejected.length} rejected`,
+      acceptedDirectives: accepted.map(directive => directive.id),
+      rejectedDirectives: rejected,
+      editingStatus: session.getEditingStatus()
+    };
+  }
+
+  // 지시사항 검증용 세션 상태
+  private createDirectiveContext(session: EditingSession): DirectiveContext {
+    const timelineManager = session.getTimelineManager();
+    return {
+      getAsset: assetId => session.getGeneratedAsset(assetId),
+      resolveTarget: target => resolveDirectiveTarget(target, timelineManager.getTracks(), timelineManager.getFps()),
+      hasDirective: directiveId => session.getDirectiveState(directiveId) !== undefined
+    };
+  }
+
+  private handleGetStatus(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    return { editingStatus: session.getEditingStatus() };
+  }
+
+  private async handleExecuteNext(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const maxRetries = this.validateMaxRetries(params.maxRetries);
+    const directive = session.getNextDirective();
+    if (!directive) {
+      return { success: false, message: 'No pending directives', editingStatus: session.getEditingStatus() };
+    }
+
+    const state = await this.runDirective(session, directive, maxRetries);
+    return {
+      success: state.status === 'completed',
+      message: this.describeDirectiveResult(directive, state),
+      processedDirectives: [directive.id],
+      editingStatus: session.getEditingStatus()
+    };
+  }
+
+  // 실행 가능한 지시사항이 없을 때까지 차례로 실행 (실패해도 의존하지 않는 지시사항은 계속 실행)
+  private async handleExecuteAll(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const maxRetries = this.validateMaxRetries(params.maxRetries);
+    const processed: string[] = [];
+    let failed = 0;
+    for (let directive = session.getNextDirective(); directive; directive = session.getNextDirective()) {
+      const state = await this.runDirective(session, directive, maxRetries);
+      processed.push(directive.id);
+      if (state.status !== 'completed') failed++;
+    }
+
+    const editingStatus = session.getEditingStatus();
+    return {
+      success: failed === 0 && editingStatus.skippedDirectives.length === 0,
+      message: `${processed.length - failed} directives completed, ${failed} failed, ${editingStatus.skippedDirectives.length} skipped`,
+      processedDirectives: processed,
+      editingStatus
+    };
+  }
+
+  private handleRetryDirective(params: RequestParams): ResponseResult {
+    const { sessionId, directiveId } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+    if (!directiveId) throw new MCPError(MCPErrorCode.InvalidParams, 'directiveId is required');
+
+    session.retryDirective(directiveId, this.validateMaxRetries(params.maxRetries));
+    return {
+      success: true,
+      message: `Directive ${directiveId} re-queued`,
+      editingStatus: session.getEditingStatus()
+    };
+  }
+
+  // 지시사항 미리보기 - 세션 복제본에서 실행하고 타임라인 변경 내용을 반환 (실제 세션은 바뀌지 않음)
+  // directives가 없으면 세션의 대기 중인 지시사항을 미리 실행
+  // 바이트 에셋은 파일로 저장하지 않고 메모리에서 헤더만 분석
+  private async handlePreviewDirectives(params: RequestParams): Promise<ResponseResult> {
+    const { sessionId, directives } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    const maxRetries = this.validateMaxRetries(params.maxRetries);
+    const project = structuredClone(session.exportProject());
+    const pendingIds = new Set(session.getEditingStatus().pendingDirectives);
+    const requested: unknown[] = directives ?? project.directives.filter(directive => pendingIds.has(directive.id));
+    if (!Array.isArray(requested) || requested.length === 0) throw new MCPError(MCPErrorCode.InvalidParams, 'No directives to preview');
+
+    // 복제본은 미리 볼 지시사항만 대기열에 둠 (다른 지시사항의 상태는 의존성 확인용으로 유지)
+    // 대기 중인 지시사항을 미리 볼 때는 등록된 ID가 중복으로 거부되지 않도록 제외
+    const requestedIds = new Set(directives ? [] : requested.map(directive => (directive as EditingDirective).id));
+    const preview = new EditingSession(session.getSessionId(), {
+      ...this.options,
+      fps: session.getTimelineManager().getFps(),
+      mediaIngestor: new ProbeOnlyMediaIngestor()
+    });
+    preview.importProject({
+      ...project,
+      directives: [],
+      directiveStates: project.directiveStates.filter(state => !requestedIds.has(state.id))
+    });
+    // submit_directives와 같은 검증 - 거부될 지시사항은 실행하지 않음
+    const { accepted: batch, rejected } = validateDirectiveBatch(structuredClone(requested), this.createDirectiveContext(preview));
+    if (batch.length > 0) preview.addDirectives(batch);
+
+    for (let directive = preview.getNextDirective(); directive; directive = preview.getNextDirective()) {
+      await this.runDirective(preview, directive, maxRetries);
+    }
+
+    const directiveStates = batch.map(directive => preview.getDirectiveState(directive.id)!);
+    const timelineDiff = diffTimelines(session.getTimelineManager().export(), preview.getTimelineManager().export());
+    const completed = directiveStates.filter(state => state.status === 'completed').length;
+    return {
+      success: rejected.length === 0 && completed === batch.length,
+      message: `${completed} of ${requested.length} directives would complete (${rejected.length} rejected), ${timelineDiff.tracks.length} tracks would change`,
+      directiveStates,
+      rejectedDirectives: rejected,
+      timelineDiff
+    };
+  }
+
+  private validateMaxRetries(maxRetries?: number): number | undefined {
+    if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'maxRetries must be a non-negative integer');
+    }
+    return maxRetries;
+  }
+
+  // 지시사항 실행 - 실패하면 maxRetries번까지 다시 시도하고 상태를 기록
+  private async runDirective(session: EditingSession, directive: EditingDirective, defaultRetries: number = 0): Promise<DirectiveState> {
+    const maxRetries = directive.maxRetries ?? defaultRetries;
+    let error = '';
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      session.markDirectiveRunning(directive.id);
+      try {
+        await this.executeDirective(session, directive);
+        session.markDirectiveCompleted(directive.id);
+        return session.getDirectiveState(directive.id)!;
+      } catch (cause) {
+        error = cause instanceof Error ? cause.message : String(cause);
+      }
+    }
+    session.markDirectiveFailed(directive.id, error);
+    return session.getDirectiveState(directive.id)!;
+  }
+
+  private describeDirectiveResult(directive: EditingDirective, state: DirectiveState): string {
+    if (state.status === 'completed') return `Directive ${directive.id} completed: ${directive.description}`;
+    const attempts = state.attempts > 1 ? ` after ${state.attempts} attempts` : '';
+    return `Directive ${directive.id} failed${attempts}: ${state.error}`;
+  }
+
+  // 지시사항 실행
+  private async executeDirective(session: EditingSession, directive: EditingDirective): Promise<void> {
+    const { type, parameters } = directive;
+
+    switch (type) {
+      case 'cut_sequence':
+        // 구간 자르기
         await this.executeCutSequence(session, parameters);
         break;
       
@@ -643,59 +2001,309 @@ export class MCPVideoEditingServer {
       
       case 'add_transition':
         // 트랜지션 추가
-        await this.executeAddTransition(session, parameters);
+        await this.executeAddTransition(session, parameters, directive.target);
         break;
       
       case 'apply_effect':
         // 효과 적용
-        await this.executeApplyEffect(session, parameters);
+        await this.executeApplyEffect(session, parameters, directive.target);
         break;
     }
   }
 
-  private async executeCutSequence(session: EditingSession, params: any): Promise<void> {
-    // 기본 편집 도구 조합으로 구간 자르기 구현
-    // trim_clip, split_clip, delete_clip 등을 조합
+  // 구간 자르기 - startTime/endTime(초) 구간을 잠기지 않은 모든 트랙에서 잘라냄 (실행 취소 한 번으로 복원)
+  private async executeCutSequence(session: EditingSession, params: EditingDirective['parameters']): Promise<void> {
+    const { startTime, endTime, ripple } = params;
+    if (typeof startTime !== 'number' || typeof endTime !== 'number' || startTime < 0 || endTime <= startTime) {
+      throw new Error('cut_sequence requires 0 <= startTime < endTime (seconds)');
+    }
+
+    const timelineManager = session.getTimelineManager();
+    const fps = timelineManager.getFps();
+    const cut = timelineManager.cutRange(TimeUtils.secondsToFrames(startTime, fps), TimeUtils.secondsToFrames(endTime, fps), ripple === true);
+    if (!cut) throw new Error(`No unlocked clips between ${startTime}s and ${endTime}s`);
+    session.markDirty();
+  }
+
+  // 배경음악 추가 - startTime부터 endTime(없으면 다른 트랙의 마지막 클립 끝)까지 채움
+  // 음악이 짧으면 이어 붙여 반복하고, 길면 끝을 잘라냄
+  private async executeAddBGM(session: EditingSession, params: EditingDirective['parameters']): Promise<void> {
+    const { mediaFile } = await this.registerAsset(session, this.resolveDirectiveAsset(session, params, 'bgm'));
+    const timelineManager = session.getTimelineManager();
+    const fps = timelineManager.getFps();
+
+    const startFrame = TimeUtils.secondsToFrames(params.startTime ?? 0, fps);
+    const contentEnd = Math.max(0, ...timelineManager.getTracks()
+      .filter(track => !(track.type === 'audio' && track.name === BGM_TRACK_NAME))
+      .flatMap(track => track.items)
+      .map(item => item.startFrame + item.durationInFrames));
+    const endFrame = params.endTime !== undefined ? TimeUtils.secondsToFrames(params.endTime, fps) : contentEnd;
+    const sourceDuration = this.getSourceDuration(mediaFile, fps);
+    // 채울 구간이 없으면 음악 길이만큼만 배치
+    const totalFrames = endFrame > startFrame ? endFrame - startFrame : sourceDuration ?? TimeUtils.secondsToFrames(5, fps);
+    const loopFrames = sourceDuration ?? totalFrames;
+
+    const items: MediaItem[] = [];
+    for (let offset = 0; offset < totalFrames; offset += loopFrames) {
+      items.push(this.createAssetItem(mediaFile, startFrame + offset, Math.min(loopFrames, totalFrames - offset), sourceDuration));
+    }
+    // 트랙이 없으면 배치와 같은 편집으로 만들어 실행 취소 시 빈 트랙이 남지 않게 함
+    if (!timelineManager.addItemsToNamedTrack(BGM_TRACK_NAME, 'audio', items)) throw new Error('Background music track is locked');
+    session.markDirty();
+  }
+
+  // 효과음 추가 - 지시사항 시각(startTime)에 정확히 배치, 효과음끼리는 겹칠 수 있음 (endTime이 있으면 그 시각에서 끊음)
+  private async executeAddSFX(session: EditingSession, params: EditingDirective['parameters']): Promise<void> {
+    const { startTime, endTime } = params;
+    if (typeof startTime !== 'number' || startTime < 0) throw new Error('add_sfx requires startTime (seconds)');
+
+    const { mediaFile } = await this.registerAsset(session, this.resolveDirectiveAsset(session, params, 'sfx'));
+    const timelineManager = session.getTimelineManager();
+    const fps = timelineManager.getFps();
+
+    const startFrame = TimeUtils.secondsToFrames(startTime, fps);
+    const sourceDuration = this.getSourceDuration(mediaFile, fps);
+    let durationInFrames = sourceDuration ?? TimeUtils.secondsToFrames(5, fps);
+    if (endTime !== undefined && endTime > startTime) {
+      durationInFrames = Math.max(1, Math.min(durationInFrames, TimeUtils.secondsToFrames(endTime, fps) - startFrame));
+    }
+
+    const item = this.createAssetItem(mediaFile, startFrame, durationInFrames, sourceDuration);
+    if (!timelineManager.addItemsToNamedTrack(SFX_TRACK_NAME, 'audio', [item], 'allow')) throw new Error('Sound effects track is locked');
+    session.markDirty();
+  }
+
+  // 지시사항의 에셋 - parameters.asset 또는 먼저 제출된 에셋(assetId)
+  private resolveDirectiveAsset(session: EditingSession, params: EditingDirective['parameters'], type: 'bgm' | 'sfx'): GeneratedAsset {
+    const asset = params.asset ?? (params.assetId ? session.getGeneratedAsset(params.assetId) : undefined);
+    if (!asset) throw new Error(`No ${type} asset given (set parameters.asset or parameters.assetId)`);
+    if (asset.type !== type) throw new Error(`Expected a ${type} asset, got ${asset.type} (${asset.id})`);
+    return asset;
+  }
+
+  // 생성 에셋을 세션 미디어 라이브러리에 등록하고 에셋 목록에 추가 (이미 등록된 에셋은 재사용)
+  private async registerAsset(session: EditingSession, asset: GeneratedAsset): Promise<{ mediaFile: MediaFile; deduplicated: boolean }> {
+    const registered = session.getGeneratedAsset(asset.id) ? session.getAssetMediaFile(asset.id) : undefined;
+    if (registered) return { mediaFile: registered, deduplicated: false };
+
+    const imported = await this.importAssetMedia(session, asset);
+    session.addGeneratedAsset({ ...asset, mediaId: imported.mediaFile.id });
+    return imported;
+  }
+
+  // 에셋 데이터를 미디어 라이브러리에 추가 - URL(http(s):, file:, /)은 참조, 그 외 문자열은 base64로 디코딩해 업로드
+  // 내용 해시가 같은 미디어 파일이 이미 있으면 새로 추가하지 않고 그 파일을 사용
+  private async importAssetMedia(session: EditingSession, asset: GeneratedAsset): Promise<{ mediaFile: MediaFile; deduplicated: boolean }> {
+    const mediaManager = session.getMediaManager();
+    const { filename, mimeType, duration } = asset.metadata;
+    const expected = ASSET_MEDIA_TYPES[asset.type];
+    const url = typeof asset.data === 'string' && MEDIA_URL_PATTERN.test(asset.data) ? asset.data : undefined;
+    if (typeof asset.data === 'string' && url === undefined && !BASE64_DATA_PATTERN.test(asset.data)) {
+      throw new Error(`Asset ${asset.id} data must be an http(s)/file URL, an absolute path or base64 data`);
+    }
+    if (asset.data === undefined) throw new Error(`Asset ${asset.id} has no data and its media file is missing`);
+    const bytes = url === undefined
+      ? typeof asset.data === 'string' ? this.decodeBase64(asset.data) : new Uint8Array(asset.data)
+      : undefined;
+
+    const duplicate = mediaManager.findByContentHash(MediaFileManager.hashContent(bytes ?? url!));
+    if (duplicate) {
+      if (duplicate.type !== expected) throw new Error(`Asset ${asset.id} is not ${expected} (${mimeType})`);
+      return { mediaFile: duplicate, deduplicated: true };
+    }
+
+    const mediaFile = bytes
+      ? await mediaManager.uploadData(bytes, filename, mimeType)
+      : mediaManager.addRemoteMedia(url!, filename, mimeType, { duration });
+    if (mediaFile.type !== expected) {
+      mediaManager.deleteMediaFile(mediaFile.id);
+      throw new Error(`Asset ${asset.id} is not ${expected} (${mimeType})`);
+    }
+    // 분석하지 못한 길이는 에이전트가 알려준 값 사용
+    mediaFile.metadata.duration ??= duration;
+    mediaFile.assetId = asset.id;
+    session.markDirty();
+    return { mediaFile, deduplicated: false };
+  }
+
+  // 미디어 원본 길이 (프레임, 모르면 undefined)
+  private getSourceDuration(mediaFile: MediaFile, fps: number): number | undefined {
+    return mediaFile.metadata.duration ? Math.max(1, TimeUtils.secondsToFrames(mediaFile.metadata.duration, fps)) : undefined;
+  }
+
+  private createAssetItem(mediaFile: MediaFile, startFrame: number, durationInFrames: number, sourceDurationInFrames?: number): MediaItem {
+    return {
+      id: this.generateId(),
+      type: mediaFile.type,
+      src: mediaFile.url,
+      mediaId: mediaFile.id,
+      startFrame,
+      durationInFrames,
+      sourceStartFrame: 0,
+      sourceDurationInFrames,
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0
+    };
+  }
+
+  // 텍스트 추가 - startTime~endTime(초) 구간에 텍스트 아이템 배치 (endTime 없으면 3초)
+  private async executeAddText(session: EditingSession, params: EditingDirective['parameters']): Promise<void> {
+    const { text, startTime = 0, endTime, position, style = {} } = params;
+    if (typeof text !== 'string' || text.length === 0) throw new Error('add_text requires parameters.text');
+    if (typeof startTime !== 'number' || startTime < 0) throw new Error('add_text requires startTime >= 0 (seconds)');
+    if (endTime !== undefined && endTime <= startTime) throw new Error('add_text requires endTime > startTime');
+
+    const fps = session.getTimelineManager().getFps();
+    const startFrame = TimeUtils.secondsToFrames(startTime, fps);
+    const endFrame = TimeUtils.secondsToFrames(endTime ?? startTime + 3, fps);
+
+    const { success } = this.placeTextItem(session, {
+      id: this.generateId(),
+      type: 'text',
+      src: '',
+      text,
+      textStyle: this.createTextStyle(style),
+      startFrame,
+      durationInFrames: Math.max(1, endFrame - startFrame),
+      x: position?.x ?? 50,
+      y: position?.y ?? 50,
+      width: 400,
+      height: 100,
+      opacity: 1
+    });
+    if (!success) throw new Error('Text track is locked');
+  }
+
+  // 트랜지션 추가 - target이 클립이면 그 클립 뒤, 시각이거나 target이 없으면 startTime(초)에 가장 가까운 편집점,
+  // 구간이면 구간 안의 편집점 전체, 미디어/트랙이면 해당 클립들 뒤의 편집점 전체 (실행 취소 한 번으로 복원)
+  private async executeAddTransition(session: EditingSession, params: EditingDirective['parameters'], target?: string): Promise<void> {
+    const { startTime, duration = 0.5, transition = 'crossfade', alignment = 'center', direction } = params;
+    if (typeof duration !== 'number' || duration <= 0) throw new Error('add_transition requires a positive duration (seconds)');
+
+    const timelineManager = session.getTimelineManager();
+    const fps = timelineManager.getFps();
+    const tracks = timelineManager.getTracks().filter(track => !track.isLocked);
+    // 맞닿은 두 클립 사이 편집점 (앞 클립 기준)
+    const editPoints = tracks.flatMap(track => track.items
+      .filter(item => track.items.some(next => next.startFrame === item.startFrame + item.durationInFrames))
+      .map(item => ({ track, itemId: item.id, frame: item.startFrame + item.durationInFrames })));
+    const nearest = (frame: number) => editPoints.reduce((best, candidate) =>
+      Math.abs(candidate.frame - frame) < Math.abs(best.frame - frame) ? candidate : best);
+
+    let selected: { track: Track; itemId: string }[];
+    const resolved = target ? resolveDirectiveTarget(target, timelineManager.getTracks(), fps) : undefined;
+    if (target && !resolved) throw new Error(`Unknown target: ${target}`);
+    if (resolved?.kind === 'clip') {
+      const [clip] = resolved.clips;
+      const track = tracks.find(candidate => candidate.id === clip.trackId);
+      if (!track) throw new Error(`Clip not found on an unlocked track: ${target}`);
+      selected = [{ track, itemId: clip.itemId }];
+    } else if (resolved?.kind === 'range') {
+      selected = editPoints.filter(point => point.frame >= resolved.startFrame! && point.frame <= resolved.endFrame!);
+    } else if (resolved && resolved.kind !== 'time') {
+      selected = editPoints.filter(point => resolved.clips.some(clip => clip.trackId === point.track.id && clip.itemId === point.itemId));
+    } else {
+      const frame = resolved?.startFrame ?? (typeof startTime === 'number' && startTime >= 0 ? TimeUtils.secondsToFrames(startTime, fps) : undefined);
+      if (frame === undefined) throw new Error('add_transition requires a target or startTime (seconds)');
+      selected = editPoints.length > 0 ? [nearest(frame)] : [];
+    }
+    if (selected.length === 0) throw new Error(target ? `No edit point between adjacent clips for target: ${target}` : 'No edit point between adjacent clips');
+
+    const entries = selected.map(({ track, itemId }) => ({
+      trackId: track.id,
+      transition: this.createTransition(timelineManager, track, itemId, {
+        type: transition,
+        durationInFrames: Math.max(1, TimeUtils.secondsToFrames(duration, fps)),
+        alignment,
+        direction
+      })
+    }));
+    if (!timelineManager.addTransitions(entries)) throw new Error('Transition could not be added');
+    session.markDirty();
   }
 
-  private async executeAddBGM(session: EditingSession, params: any): Promise<void> {
-    // 생성된 BGM 에셋을 오디오 트랙에 추가
-    if (params.asset) {
-      // BGM 트랙 생성 또는 찾기
-      let bgmTrack = session.getTimelineManager().getTracks().find(t => t.name.includes('BGM'));
-      if (!bgmTrack) {
-        bgmTrack = session.getTimelineManager().createTrack('Background Music', 'audio');
-      }
-      
-      // 에셋을 미디어 파일로 등록하고 트랙에 추가하는 로직
+  // 효과 적용 - target(클립, 미디어, 트랙, 시각, 구간)이 가리키는 클립, target이 없으면 startTime~endTime(초)과 겹치는 클립
+  // 잠기지 않은 트랙의 비주얼 클립에만 적용 (실행 취소 한 번으로 복원)
+  private async executeApplyEffect(session: EditingSession, params: EditingDirective['parameters'], target?: string): Promise<void> {
+    const { effect: type, amount, color, tolerance, preset, startTime = 0, endTime } = params;
+    if (!type) throw new Error('apply_effect requires parameters.effect');
+    const effect = this.createEffect({ type, amount, color, tolerance, preset });
+
+    const timelineManager = session.getTimelineManager();
+    const fps = timelineManager.getFps();
+    const resolved = target ? resolveDirectiveTarget(target, timelineManager.getTracks(), fps) : undefined;
+    if (target && !resolved) throw new Error(`Unknown target: ${target}`);
+    const rangeStart = TimeUtils.secondsToFrames(startTime, fps);
+    const rangeEnd = endTime !== undefined ? TimeUtils.secondsToFrames(endTime, fps) : Infinity;
+
+    const targets = timelineManager.getTracks()
+      .filter(track => !track.isLocked)
+      .flatMap(track => track.items
+        .filter(item => item.type !== 'audio')
+        .filter(item => resolved
+          ? resolved.clips.some(clip => clip.trackId === track.id && clip.itemId === item.id)
+          : item.startFrame < rangeEnd && item.startFrame + item.durationInFrames > rangeStart)
+        .map(item => ({ trackId: track.id, itemId: item.id })));
+    if (targets.length === 0) {
+      throw new Error(target ? `No visual clips on unlocked tracks for target: ${target}` : 'No visual clips in the given time range');
     }
-  }
 
-  private async executeAddSFX(session: EditingSession, params: any): Promise<void> {
-    // 효과음 추가 로직
+    if (!timelineManager.applyEffect(targets, effect)) throw new Error('Effect could not be applied');
+    session.markDirty();
   }
 
-  private async executeAddText(session: EditingSession, params: any): Promise<void> {
-    // 텍스트 오버레이 추가 로직
-  }
+  private handleExport(params: RequestParams): ResponseResult {
+    const { sessionId, format = 'mp4', quality = 'high', outputPath } = params;
+    const session = this.getSession(sessionId!);
+    if (!session) throw new MCPError(MCPErrorCode.SessionNotFound, 'Session not found');
+
+    if (!this.renderJobs.isAvailable()) {
+      throw new MCPError(MCPErrorCode.InternalError, 'Rendering is not available on this server');
+    }
+    if (!RENDER_FORMATS.includes(format as RenderFormat)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unsupported format: ${format}`, { supported: RENDER_FORMATS });
+    }
+    if (!RENDER_QUALITIES.includes(quality as RenderQuality)) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unsupported quality: ${quality}`, { supported: RENDER_QUALITIES });
+    }
+
+    const timelineManager = session.getTimelineManager();
+    const durationInFrames = timelineManager.getTotalDuration();
+    if (durationInFrames <= 0) throw new MCPError(MCPErrorCode.InvalidParams, 'Timeline is empty');
+
+    const renderJob = this.renderJobs.enqueue(sessionId!, {
+      compositionProps: session.getCompositionProps(),
+      durationInFrames,
+      fps: timelineManager.getFps(),
+      format: format as RenderFormat,
+      quality: quality as RenderQuality,
+      outputPath: outputPath || `out/${sessionId}_${Date.now().toString(36)}.${format}`
+    });
 
-  private async executeAddTransition(session: EditingSession, params: any): Promise<void> {
-    // 트랜지션 효과 추가 로직
+    return { exportId: renderJob.id, status: renderJob.status, renderJob, message: 'Export started' };
   }
 
-  private async executeApplyEffect(session: EditingSession, params: any): Promise<void> {
-    // 비주얼 효과 적용 로직
+  private handleRenderStatus(params: RequestParams): ResponseResult {
+    const renderJob = this.renderJobs.getJob(params.exportId!);
+    if (!renderJob) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Export job not found');
+
+    return { exportId: renderJob.id, status: renderJob.status, renderJob };
   }
 
-  private handleExport(params: RequestParams): ResponseResult {
-    const { sessionId, format, quality } = params;
-    const session = this.getSession(sessionId!);
-    if (!session) throw new Error('Session not found');
+  private handleRenderCancel(params: RequestParams): ResponseResult {
+    const { exportId } = params;
+    if (!this.renderJobs.getJob(exportId!)) throw new MCPError(MCPErrorCode.ResourceNotFound, 'Export job not found');
 
-    const exportId = this.generateId();
-    // 실제 렌더링 로직은 별도 구현
-    
-    return { exportId, status: 'queued', message: 'Export started' };
+    const success = this.renderJobs.cancel(exportId!);
+    const renderJob = this.renderJobs.getJob(exportId!)!;
+    return { success, exportId, status: renderJob.status, renderJob };
+  }
+
+  private handleRenderList(params: RequestParams): ResponseResult {
+    const { sessionId } = params;
+    return { renderJobs: this.renderJobs.listJobs(sessionId) };
   }
 
   // 유틸리티 메서드들
@@ -707,9 +2315,9 @@ export class MCPVideoEditingServer {
     return Date.now().toString(36) + random(null).toString(36).substr(2);
   }
 
-  private generateTextDataURL(text: string, style: any): string {
-    // Canvas API로 텍스트 이미지 생성 (실제 구현 필요)
-    return `data:image/png;base64,generated_text_${Date.now()}`;
+  private decodeBase64(data: string): Uint8Array {
+    const base64 = data.includes(',') ? data.slice(data.indexOf(',') + 1) : data;
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
   }
 }
 
@@ -741,6 +2349,19 @@ export class MCPClient {
     }
   }
 
+  async saveSession(): Promise<string> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('session.save', { sessionId: this.sessionId });
+    return response.projectPath!;
+  }
+
+  // 저장된 세션에 다시 연결
+  async loadSession(sessionId: string): Promise<void> {
+    await this.sendRequest('session.load', { sessionId });
+    this.sessionId = sessionId;
+  }
+
   // === 기본 편집 도구 ===
   async uploadMedia(fileData: ArrayBuffer, fileName: string, fileType: string): Promise<MediaFile> {
     if (!this.sessionId) throw new Error('Session not started');
@@ -755,13 +2376,14 @@ export class MCPClient {
     return response.mediaFile!;
   }
 
-  async createTrack(name: string, type: 'video' | 'audio' | 'subtitle' | 'overlay'): Promise<Track> {
+  async createTrack(name: string, type: 'video' | 'audio' | 'subtitle' | 'overlay', overlapPolicy?: OverlapPolicy): Promise<Track> {
     if (!this.sessionId) throw new Error('Session not started');
     
     const response = await this.sendRequest('edit.create_track', {
       sessionId: this.sessionId,
       name,
-      type
+      type,
+      overlapPolicy
     });
     
     return response.track!;
@@ -842,6 +2464,153 @@ export class MCPClient {
     return response.success!;
   }
 
+  async rippleDelete(trackId: string, itemId: string, allTracks: boolean = false): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.ripple_delete', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      allTracks
+    });
+    
+    return response.success!;
+  }
+
+  async rippleTrim(trackId: string, itemId: string, startFrame?: number, endFrame?: number, allTracks: boolean = false): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.ripple_trim', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      startFrame,
+      endFrame,
+      allTracks
+    });
+    
+    return response.success!;
+  }
+
+  async rollEdit(trackId: string, itemId: string, editFrame: number): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.roll', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      editFrame
+    });
+    
+    return response.success!;
+  }
+
+  async slipClip(trackId: string, itemId: string, offset: number): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.slip', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      offset
+    });
+    
+    return response.success!;
+  }
+
+  async slideClip(trackId: string, itemId: string, offset: number): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.slide', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      offset
+    });
+    
+    return response.success!;
+  }
+
+  async findGaps(trackId?: string): Promise<GapReport> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.find_gaps', {
+      sessionId: this.sessionId,
+      trackId
+    });
+    
+    return response.gaps!;
+  }
+
+  async closeGaps(trackIds?: string[]): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.close_gaps', {
+      sessionId: this.sessionId,
+      trackIds
+    });
+    
+    return response.success!;
+  }
+
+  async addTransition(trackId: string, itemId: string, options?: {
+    transitionType?: TransitionType;
+    durationInFrames?: number;
+    alignment?: TransitionAlignment;
+    direction?: TransitionDirection;
+  }): Promise<Transition> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.add_transition', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      ...options
+    });
+    
+    return response.transition!;
+  }
+
+  async removeTransition(trackId: string, transitionId: string): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.remove_transition', {
+      sessionId: this.sessionId,
+      trackId,
+      transitionId
+    });
+    
+    return response.success!;
+  }
+
+  async applyEffect(trackId: string, itemId: string, effect: ClipEffect): Promise<MediaItem> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const { type, ...options } = effect;
+    const response = await this.sendRequest('edit.apply_effect', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      effectType: type,
+      ...options
+    });
+    
+    return response.mediaItem!;
+  }
+
+  async removeEffect(trackId: string, itemId: string, effectType: EffectType): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.remove_effect', {
+      sessionId: this.sessionId,
+      trackId,
+      itemId,
+      effectType
+    });
+    
+    return response.success!;
+  }
+
   async setClipProperties(trackId: string, itemId: string, properties: {
     x?: number;
     y?: number;
@@ -869,9 +2638,15 @@ export class MCPClient {
     y?: number;
     width?: number;
     height?: number;
+    durationInFrames?: number;
     fontSize?: number;
+    fontWeight?: TextStyle['fontWeight'];
     color?: string;
     fontFamily?: string;
+    align?: TextAlign;
+    stroke?: TextStyle['stroke'];
+    shadow?: TextStyle['shadow'];
+    background?: TextStyle['background'];
   }): Promise<{ mediaItem: MediaItem; track: Track }> {
     if (!this.sessionId) throw new Error('Session not started');
     
@@ -898,6 +2673,86 @@ export class MCPClient {
     };
   }
 
+  async undo(): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.undo', {
+      sessionId: this.sessionId
+    });
+    
+    return response.success!;
+  }
+
+  async redo(): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.redo', {
+      sessionId: this.sessionId
+    });
+    
+    return response.success!;
+  }
+
+  async addKeyframe(
+    itemId: string,
+    property: AnimatableProperty,
+    frame: number,
+    value: KeyframeValue,
+    easing?: KeyframeEasing,
+    options: Pick<RequestParams, 'bezier' | 'steps' | 'spring'> = {}
+  ): Promise<KeyframeExportData> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('edit.add_keyframe', {
+      sessionId: this.sessionId,
+      itemId,
+      property,
+      frame,
+      value,
+      easing,
+      ...options
+    });
+
+    return response.keyframes!;
+  }
+
+  async removeKeyframe(itemId: string, property: AnimatableProperty, frame: number): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('edit.remove_keyframe', {
+      sessionId: this.sessionId,
+      itemId,
+      property,
+      frame
+    });
+
+    return response.success!;
+  }
+
+  async listKeyframes(itemId?: string): Promise<KeyframeExportData> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('edit.list_keyframes', {
+      sessionId: this.sessionId,
+      itemId
+    });
+
+    return response.keyframes!;
+  }
+
+  async getHistory(): Promise<{ operations: EditHistoryEntry[]; cursor: number }> {
+    if (!this.sessionId) throw new Error('Session not started');
+    
+    const response = await this.sendRequest('edit.history', {
+      sessionId: this.sessionId
+    });
+    
+    return {
+      operations: response.history!,
+      cursor: response.historyCursor!
+    };
+  }
+
   // === 에이전트 협업 ===
   async submitAsset(asset: GeneratedAsset): Promise<boolean> {
     if (!this.sessionId) throw new Error('Session not started');
@@ -910,6 +2765,49 @@ export class MCPClient {
     return response.success!;
   }
 
+  async listAssets(): Promise<AssetSummary[]> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.list_assets', {
+      sessionId: this.sessionId
+    });
+
+    return response.assets!;
+  }
+
+  async getAsset(assetId: string): Promise<{ asset: GeneratedAsset; mediaFile?: MediaFile; itemIds: string[] }> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.get_asset', {
+      sessionId: this.sessionId,
+      assetId
+    });
+
+    return { asset: response.asset!, mediaFile: response.mediaFile, itemIds: response.itemIds! };
+  }
+
+  async replaceAsset(asset: GeneratedAsset): Promise<{ mediaFile: MediaFile; itemIds: string[] }> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.replace_asset', {
+      sessionId: this.sessionId,
+      asset
+    });
+
+    return { mediaFile: response.mediaFile!, itemIds: response.itemIds! };
+  }
+
+  async deleteAsset(assetId: string): Promise<boolean> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.delete_asset', {
+      sessionId: this.sessionId,
+      assetId
+    });
+
+    return response.success!;
+  }
+
   async submitDirectives(directives: EditingDirective[]): Promise<EditingStatus> {
     if (!this.sessionId) throw new Error('Session not started');
     
@@ -931,11 +2829,12 @@ export class MCPClient {
     return response.editingStatus!;
   }
 
-  async executeNextDirective(): Promise<{ success: boolean; message: string; status?: EditingStatus }> {
+  async executeNextDirective(maxRetries?: number): Promise<{ success: boolean; message: string; status?: EditingStatus }> {
     if (!this.sessionId) throw new Error('Session not started');
     
     const response = await this.sendRequest('agent.execute_next', {
-      sessionId: this.sessionId
+      sessionId: this.sessionId,
+      maxRetries
     });
     
     return {
@@ -945,19 +2844,78 @@ export class MCPClient {
     };
   }
 
+  async executeAllDirectives(maxRetries?: number): Promise<{ success: boolean; message: string; processed: string[]; status: EditingStatus }> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.execute_all', {
+      sessionId: this.sessionId,
+      maxRetries
+    });
+
+    return {
+      success: response.success!,
+      message: response.message!,
+      processed: response.processedDirectives!,
+      status: response.editingStatus!
+    };
+  }
+
+  async previewDirectives(directives?: EditingDirective[]): Promise<{ success: boolean; states: DirectiveState[]; diff: TimelineDiff }> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.preview_directives', {
+      sessionId: this.sessionId,
+      directives
+    });
+
+    return {
+      success: response.success!,
+      states: response.directiveStates!,
+      diff: response.timelineDiff!
+    };
+  }
+
+  async retryDirective(directiveId: string, maxRetries?: number): Promise<EditingStatus> {
+    if (!this.sessionId) throw new Error('Session not started');
+
+    const response = await this.sendRequest('agent.retry_directive', {
+      sessionId: this.sessionId,
+      directiveId,
+      maxRetries
+    });
+
+    return response.editingStatus!;
+  }
+
   // === 기본 렌더링 ===
-  async exportVideo(format?: string, quality?: string): Promise<string> {
+  async exportVideo(format?: string, quality?: string, outputPath?: string): Promise<string> {
     if (!this.sessionId) throw new Error('Session not started');
     
     const response = await this.sendRequest('render.export', {
       sessionId: this.sessionId,
       format,
-      quality
+      quality,
+      outputPath
     });
     
     return response.exportId!;
   }
 
+  async getExportStatus(exportId: string): Promise<RenderJob> {
+    const response = await this.sendRequest('render.status', { exportId });
+    return response.renderJob!;
+  }
+
+  async cancelExport(exportId: string): Promise<boolean> {
+    const response = await this.sendRequest('render.cancel', { exportId });
+    return response.success!;
+  }
+
+  async listExports(): Promise<RenderJob[]> {
+    const response = await this.sendRequest('render.list', { sessionId: this.sessionId });
+    return response.renderJobs!;
+  }
+
   // === 헬퍼 메서드들 ===
 
   // 자동 침묵 제거 (기본 도구 조합)
@@ -984,6 +2942,7 @@ export class MCPClient {
   // 내부 메서드
   private async sendRequest(method: string, params: RequestParams): Promise<ResponseResult> {
     const request: MCPRequest = {
+      jsonrpc: '2.0',
       id: this.generateId(),
       method,
       params
@@ -0,0 +1,776 @@
+// MCP (Model Context Protocol) 프로토콜 계층 - JSON-RPC 2.0 기반 initialize / tools/list / tools/call
+import {
+  MCPError,
+  MCPErrorCode,
+  MCPResponse,
+  MCPVideoEditingServer,
+  RequestParams
+} from './mcpInterface';
+import {
+  ANIMATABLE_PROPERTIES,
+  KEYFRAME_EASINGS,
+  OVERLAP_POLICIES,
+  TRANSITION_ALIGNMENTS,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_TYPES
+} from '../utils/timelineUtils';
+import { TEXT_ALIGNS } from '../Composition';
+import { COLOR_PRESETS, EFFECT_TYPES } from '../utils/effectUtils';
+import { DIRECTIVE_TYPES } from './directiveSchema';
+import { RENDER_FORMATS, RENDER_QUALITIES } from './renderJobs';
+
+// 지원하는 MCP 프로토콜 버전 (최신 버전이 먼저)
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+export const SERVER_INFO = {
+  name: 'rodumani-video-editor',
+  version: '1.0.0'
+};
+
+// JSON-RPC 2.0 메시지 타입
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null; // 없으면 알림(notification)
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: MCPResponse['error'];
+}
+
+// JSON Schema (도구 인자 정의용 부분 집합)
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  additionalProperties?: boolean;
+}
+
+// MCP 도구 정의 - name은 MCP 호스트 호환을 위해 밑줄 표기, method는 내부 핸들러 이름
+export interface MCPToolDefinition {
+  name: string;
+  method: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+// 스키마 헬퍼
+const string = (description: string): JsonSchema => ({ type: 'string', description });
+const number = (description: string): JsonSchema => ({ type: 'number', description });
+const frame = (description: string): JsonSchema => ({ type: 'integer', minimum: 0, description });
+
+const objectSchema = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({
+  type: 'object',
+  properties,
+  required,
+  additionalProperties: false
+});
+
+const sessionId = string('편집 세션 ID');
+const trackId = string('트랙 ID');
+const itemId = string('타임라인 아이템(클립) ID');
+const assetId = string('에셋 ID');
+
+const maxRetries: JsonSchema = { type: 'integer', minimum: 0, description: '지시사항에 maxRetries가 없을 때 실패 시 재시도 횟수 (기본 0)' };
+
+const rippleAllTracks: JsonSchema = { type: 'boolean', description: '잠기지 않은 모든 트랙의 뒤쪽 클립도 함께 이동 (기본 false)' };
+
+const keyframeProperty: JsonSchema = {
+  type: 'string',
+  enum: [...ANIMATABLE_PROPERTIES],
+  description: '애니메이션할 속성'
+};
+
+const transformProperties: Record<string, JsonSchema> = {
+  x: number('가로 위치 (px)'),
+  y: number('세로 위치 (px)'),
+  width: number('너비 (px)'),
+  height: number('높이 (px)'),
+  opacity: number('투명도 (0~1)'),
+  scale: number('배율'),
+  rotation: number('회전 각도 (deg)')
+};
+
+const agentType: JsonSchema = {
+  type: 'string',
+  enum: ['director', 'bgm_generator', 'sfx_generator', 'tts_generator', 'editor'],
+  description: '에이전트 역할'
+};
+
+const generatedAsset: JsonSchema = {
+  type: 'object',
+  description: '다른 에이전트가 생성한 에셋',
+  properties: {
+    id: string('에셋 ID'),
+    type: { type: 'string', enum: ['bgm', 'sfx', 'tts', 'image', 'video'] },
+    agentId: string('생성한 에이전트 ID'),
+    data: string('파일 URL(http(s):, file: 또는 /로 시작하는 경로) 또는 base64 데이터(data:...;base64, 접두어 허용)'),
+    metadata: {
+      type: 'object',
+      properties: {
+        duration: number('길이 (초)'),
+        filename: string('파일 이름'),
+        mimeType: string('MIME 타입'),
+        description: string('설명'),
+        tags: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['filename', 'mimeType']
+    }
+  },
+  required: ['id', 'type', 'agentId', 'data', 'metadata']
+};
+
+const editingDirective: JsonSchema = {
+  type: 'object',
+  description: '감독 에이전트의 편집 지시사항',
+  properties: {
+    id: string('지시사항 ID'),
+    type: {
+      type: 'string',
+      enum: [...DIRECTIVE_TYPES]
+    },
+    target: string('대상 (add_transition, apply_effect) - 클립 ID, 미디어 ID, 트랙 이름, 타임코드/초(예: 00:01:02.5) 또는 시간 범위(예: 10-12), clip:/media:/track:/time: 접두어로 종류 지정 가능'),
+    parameters: { type: 'object', description: '지시사항 타입별 파라미터' },
+    priority: number('실행 순서 (낮을수록 먼저)'),
+    description: string('자연어 설명'),
+    dependsOn: { type: 'array', items: { type: 'string' }, description: '먼저 완료되어야 하는 지시사항 ID 목록' },
+    maxRetries: { type: 'integer', minimum: 0, description: '실패 시 재시도 횟수 (기본: 실행 요청의 maxRetries)' }
+  },
+  required: ['id', 'type', 'parameters', 'priority', 'description']
+};
+
+// 노출되는 도구 목록
+export const MCP_TOOLS: MCPToolDefinition[] = [
+  // === 세션 관리 ===
+  {
+    name: 'session_create',
+    method: 'session.create',
+    description: '새 편집 세션을 생성합니다.',
+    inputSchema: objectSchema({ fps: number('타임라인 프레임 레이트 (기본 30, 예: 23.976, 24, 60)') })
+  },
+  {
+    name: 'session_delete',
+    method: 'session.delete',
+    description: '편집 세션을 삭제합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'session_list',
+    method: 'session.list',
+    description: '활성 세션 ID 목록을 조회합니다.',
+    inputSchema: objectSchema({})
+  },
+  {
+    name: 'session_save',
+    method: 'session.save',
+    description: '세션(타임라인, 미디어 라이브러리, 키프레임, 지시사항, 에셋)을 프로젝트 파일로 저장합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'session_load',
+    method: 'session.load',
+    description: '저장된 프로젝트 파일에서 세션을 불러옵니다 (저장하지 않은 변경 사항은 버려짐).',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+
+  // === 미디어 관리 ===
+  {
+    name: 'media_upload',
+    method: 'media.upload',
+    description: '미디어 파일(비디오/오디오/이미지)을 세션 라이브러리에 업로드합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      fileData: string('base64로 인코딩된 파일 데이터'),
+      fileName: string('파일 이름'),
+      fileType: string('MIME 타입 (예: video/mp4)')
+    }, ['sessionId', 'fileData', 'fileName', 'fileType'])
+  },
+  {
+    name: 'media_list',
+    method: 'media.list',
+    description: '세션의 미디어 라이브러리를 조회합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'media_delete',
+    method: 'media.delete',
+    description: '미디어 파일을 라이브러리에서 삭제합니다.',
+    inputSchema: objectSchema({ sessionId, mediaId: string('미디어 파일 ID') }, ['sessionId', 'mediaId'])
+  },
+  {
+    name: 'media_get_info',
+    method: 'media.get_info',
+    description: '미디어 파일 정보와 메타데이터를 조회합니다.',
+    inputSchema: objectSchema({ sessionId, mediaId: string('미디어 파일 ID') }, ['sessionId', 'mediaId'])
+  },
+
+  // === 편집 도구 ===
+  {
+    name: 'edit_create_track',
+    method: 'edit.create_track',
+    description: '새 트랙을 생성합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      name: string('트랙 이름'),
+      type: { type: 'string', enum: ['video', 'audio', 'subtitle', 'overlay'], description: '트랙 타입' },
+      overlapPolicy: {
+        type: 'string',
+        enum: [...OVERLAP_POLICIES],
+        description: '클립이 겹칠 때 처리 방식 - overwrite: 기존 클립 덮어쓰기, insert: 뒤쪽 클립 밀기, reject: 오류, allow: 겹침 허용 (기본: overlay는 allow, 나머지는 overwrite)'
+      }
+    }, ['sessionId', 'name', 'type'])
+  },
+  {
+    name: 'edit_add_media',
+    method: 'edit.add_media',
+    description: '라이브러리의 미디어를 트랙에 클립으로 추가합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      mediaId: string('미디어 파일 ID'),
+      startFrame: frame('시작 프레임'),
+      ...transformProperties
+    }, ['sessionId', 'trackId', 'mediaId'])
+  },
+  {
+    name: 'edit_move_clip',
+    method: 'edit.move_clip',
+    description: '클립을 다른 위치 또는 다른 트랙으로 이동합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      newStartFrame: frame('새 시작 프레임'),
+      newTrackId: string('이동할 트랙 ID (생략 시 같은 트랙)')
+    }, ['sessionId', 'trackId', 'itemId', 'newStartFrame'])
+  },
+  {
+    name: 'edit_trim_clip',
+    method: 'edit.trim_clip',
+    description: '클립의 시작/끝 프레임을 조정합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      startFrame: frame('새 시작 프레임'),
+      endFrame: frame('새 끝 프레임')
+    }, ['sessionId', 'trackId', 'itemId'])
+  },
+  {
+    name: 'edit_split_clip',
+    method: 'edit.split_clip',
+    description: '지정한 프레임에서 클립을 둘로 나눕니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      splitFrame: frame('분할 프레임 (타임라인 기준)')
+    }, ['sessionId', 'trackId', 'itemId', 'splitFrame'])
+  },
+  {
+    name: 'edit_delete_clip',
+    method: 'edit.delete_clip',
+    description: '트랙에서 클립을 삭제합니다.',
+    inputSchema: objectSchema({ sessionId, trackId, itemId }, ['sessionId', 'trackId', 'itemId'])
+  },
+  {
+    name: 'edit_ripple_delete',
+    method: 'edit.ripple_delete',
+    description: '클립을 삭제하고 뒤쪽 클립들을 당겨 빈 자리를 없앱니다.',
+    inputSchema: objectSchema({ sessionId, trackId, itemId, allTracks: rippleAllTracks }, ['sessionId', 'trackId', 'itemId'])
+  },
+  {
+    name: 'edit_ripple_trim',
+    method: 'edit.ripple_trim',
+    description: '클립을 트림하고 길이 변화만큼 뒤쪽 클립들을 이동합니다. 앞쪽을 트림해도 클립 시작 위치는 유지됩니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      startFrame: frame('새 시작 프레임 (원본 재생 위치 기준으로 트림)'),
+      endFrame: frame('새 끝 프레임'),
+      allTracks: rippleAllTracks
+    }, ['sessionId', 'trackId', 'itemId'])
+  },
+  {
+    name: 'edit_roll',
+    method: 'edit.roll',
+    description: '클립과 바로 뒤에 맞닿은 클립 사이의 경계를 옮깁니다. 두 클립의 전체 길이는 유지됩니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId: string('경계 앞쪽 클립 ID'),
+      editFrame: frame('새 경계 프레임 (타임라인 기준)')
+    }, ['sessionId', 'trackId', 'itemId', 'editFrame'])
+  },
+  {
+    name: 'edit_slip',
+    method: 'edit.slip',
+    description: '클립의 위치와 길이는 그대로 두고 원본에서 재생할 구간만 이동합니다 (비디오/오디오).',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      offset: { type: 'integer', description: '원본 재생 위치 이동량 (프레임, 음수 가능)' }
+    }, ['sessionId', 'trackId', 'itemId', 'offset'])
+  },
+  {
+    name: 'edit_slide',
+    method: 'edit.slide',
+    description: '클립을 옮기면서 맞닿은 앞/뒤 클립의 끝과 시작을 함께 조정합니다. 클립의 원본 구간과 전체 길이는 유지됩니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      offset: { type: 'integer', description: '이동량 (프레임, 음수 가능)' }
+    }, ['sessionId', 'trackId', 'itemId', 'offset'])
+  },
+  {
+    name: 'edit_find_gaps',
+    method: 'edit.find_gaps',
+    description: '클립이 없어 검은 화면/무음으로 렌더링되는 빈 구간을 트랙별, 타임라인 전체 기준으로 조회합니다.',
+    inputSchema: objectSchema({ sessionId, trackId: string('조회할 트랙 ID (생략 시 전체 트랙)') }, ['sessionId'])
+  },
+  {
+    name: 'edit_close_gaps',
+    method: 'edit.close_gaps',
+    description: '빈 구간만큼 뒤쪽 클립들을 당겨 빈 구간을 없앱니다. 트랙을 여러 개 지정하면 모든 트랙이 함께 비어 있는 구간만 닫아 싱크를 유지합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId: string('빈 구간을 닫을 트랙 ID'),
+      trackIds: { type: 'array', items: string('트랙 ID'), description: '함께 닫을 트랙 ID 목록 (생략 시 잠기지 않은 전체 트랙, 잠긴 트랙을 지정하면 거부)' }
+    }, ['sessionId'])
+  },
+  {
+    name: 'edit_add_transition',
+    method: 'edit.add_transition',
+    description: '클립과 바로 뒤에 맞닿은 클립 사이에 트랜지션을 추가합니다. 전환 구간 동안 두 클립을 겹쳐 렌더링하며, 같은 편집점의 기존 트랜지션은 교체됩니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId: string('앞 클립 ID (바로 뒤에 맞닿은 클립으로 전환)'),
+      transitionType: { type: 'string', enum: [...TRANSITION_TYPES], description: '전환 종류 (기본 crossfade)' },
+      durationInFrames: { type: 'integer', minimum: 1, description: '전환 길이 (프레임, 기본 0.5초)' },
+      alignment: { type: 'string', enum: [...TRANSITION_ALIGNMENTS], description: '편집점 기준 위치 - center: 가운데, start: 편집점에서 시작, end: 편집점에서 끝남 (기본 center)' },
+      direction: { type: 'string', enum: [...TRANSITION_DIRECTIONS], description: 'wipe/slide 진행 방향 (기본 left)' }
+    }, ['sessionId', 'trackId', 'itemId'])
+  },
+  {
+    name: 'edit_remove_transition',
+    method: 'edit.remove_transition',
+    description: '트랜지션을 삭제합니다.',
+    inputSchema: objectSchema({ sessionId, trackId, transitionId: string('트랜지션 ID') }, ['sessionId', 'trackId', 'transitionId'])
+  },
+  {
+    name: 'edit_apply_effect',
+    method: 'edit.apply_effect',
+    description: '클립의 효과 스택에 비주얼 효과를 추가합니다. 같은 종류의 효과가 있으면 값을 교체하며, 효과는 추가한 순서대로 적용됩니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      effectType: { type: 'string', enum: [...EFFECT_TYPES], description: '효과 종류' },
+      amount: number('강도 - brightness/contrast/saturation: 배율 (1 = 원본), blur: 반경 (px), grayscale/sepia/vignette/color_preset: 0~1'),
+      color: string('chroma_key: 투명하게 만들 색 (#rrggbb, 기본 #00ff00)'),
+      tolerance: number('chroma_key: 허용 범위 (0~1, 기본 0.3)'),
+      preset: { type: 'string', enum: [...COLOR_PRESETS], description: 'color_preset: 색보정 프리셋' }
+    }, ['sessionId', 'trackId', 'itemId', 'effectType'])
+  },
+  {
+    name: 'edit_remove_effect',
+    method: 'edit.remove_effect',
+    description: '클립의 효과 스택에서 효과를 제거합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      trackId,
+      itemId,
+      effectType: { type: 'string', enum: [...EFFECT_TYPES], description: '제거할 효과 종류' }
+    }, ['sessionId', 'trackId', 'itemId', 'effectType'])
+  },
+  {
+    name: 'edit_set_properties',
+    method: 'edit.set_properties',
+    description: '클립의 위치, 크기, 투명도, 배율, 회전을 변경합니다.',
+    inputSchema: objectSchema({ sessionId, trackId, itemId, ...transformProperties }, ['sessionId', 'trackId', 'itemId'])
+  },
+  {
+    name: 'edit_add_text',
+    method: 'edit.add_text',
+    description: '텍스트 오버레이를 추가합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      text: string('표시할 텍스트'),
+      startFrame: frame('시작 프레임'),
+      durationInFrames: { type: 'integer', minimum: 1, description: '표시 길이 (프레임, 기본 3초)' },
+      x: number('가로 위치 (px)'),
+      y: number('세로 위치 (px)'),
+      width: number('텍스트 박스 너비 (px)'),
+      height: number('텍스트 박스 높이 (px)'),
+      fontSize: number('글자 크기 (px)'),
+      fontWeight: number('글자 굵기 (100~900)'),
+      color: string('글자 색상'),
+      fontFamily: string('글꼴'),
+      align: { type: 'string', enum: [...TEXT_ALIGNS], description: '텍스트 박스 안 가로 정렬 (기본 center)' },
+      stroke: objectSchema({ color: string('외곽선 색상'), width: number('외곽선 두께 (px)') }, ['color', 'width']),
+      shadow: objectSchema({
+        color: string('그림자 색상'),
+        blur: number('흐림 반경 (px)'),
+        offsetX: number('가로 오프셋 (px)'),
+        offsetY: number('세로 오프셋 (px)')
+      }, ['color', 'blur', 'offsetX', 'offsetY']),
+      background: objectSchema({
+        color: string('배경 박스 색상'),
+        padding: number('안쪽 여백 (px)'),
+        borderRadius: number('모서리 반경 (px)')
+      }, ['color'])
+    }, ['sessionId', 'text'])
+  },
+  {
+    name: 'edit_get_timeline',
+    method: 'edit.get_timeline',
+    description: '현재 타임라인의 트랙, 클립, 길이를 조회합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'edit_add_keyframe',
+    method: 'edit.add_keyframe',
+    description: '아이템 속성에 키프레임을 추가합니다 (같은 프레임/속성의 키프레임은 교체). 프레임은 클립 시작 기준입니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      itemId,
+      property: keyframeProperty,
+      frame: frame('클립 시작 기준 프레임'),
+      value: {
+        description: '속성 값 (x/y: px, position: { x, y }, scale: 배율, rotation: deg, opacity/volume: 0~1, color/backgroundColor: 텍스트 색상 문자열 (#rrggbb, rgb(), hsl()))'
+      },
+      easing: { type: 'string', enum: [...KEYFRAME_EASINGS], description: '다음 키프레임까지의 이징 (기본 linear)' },
+      bezier: { type: 'array', items: { type: 'number' }, description: 'cubic-bezier 제어점 [x1, y1, x2, y2] (x는 0~1)' },
+      steps: { type: 'integer', minimum: 1, description: 'step 이징 단계 수 (기본 1)' },
+      spring: objectSchema({
+        damping: number('감쇠 (기본 10)'),
+        mass: number('질량 (기본 1)'),
+        stiffness: number('강성 (기본 100)'),
+        overshootClamping: { type: 'boolean', description: '목표값을 넘지 않도록 고정' }
+      })
+    }, ['sessionId', 'itemId', 'property', 'frame', 'value'])
+  },
+  {
+    name: 'edit_remove_keyframe',
+    method: 'edit.remove_keyframe',
+    description: '아이템 속성의 키프레임을 삭제합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      itemId,
+      property: keyframeProperty,
+      frame: frame('클립 시작 기준 프레임')
+    }, ['sessionId', 'itemId', 'property', 'frame'])
+  },
+  {
+    name: 'edit_list_keyframes',
+    method: 'edit.list_keyframes',
+    description: '키프레임 목록을 조회합니다 (itemId 생략 시 세션 전체).',
+    inputSchema: objectSchema({ sessionId, itemId, property: keyframeProperty }, ['sessionId'])
+  },
+  {
+    name: 'edit_undo',
+    method: 'edit.undo',
+    description: '마지막 편집 작업을 실행 취소합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'edit_redo',
+    method: 'edit.redo',
+    description: '실행 취소한 편집 작업을 다시 실행합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'edit_history',
+    method: 'edit.history',
+    description: '편집 작업 기록과 현재 실행 취소 커서를 조회합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+
+  // === 에이전트 협업 ===
+  {
+    name: 'agent_register',
+    method: 'agent.register',
+    description: '에이전트를 세션에 등록합니다.',
+    inputSchema: objectSchema({ sessionId, agentId: string('에이전트 ID'), agentType }, ['sessionId', 'agentId', 'agentType'])
+  },
+  {
+    name: 'agent_submit_asset',
+    method: 'agent.submit_asset',
+    description: '생성된 에셋(BGM, 효과음, TTS 등)을 제출하고 미디어 라이브러리에 등록합니다. 내용이 같은 미디어 파일이 이미 있으면 그 파일을 공유합니다.',
+    inputSchema: objectSchema({ sessionId, asset: generatedAsset }, ['sessionId', 'asset'])
+  },
+  {
+    name: 'agent_list_assets',
+    method: 'agent.list_assets',
+    description: '제출된 에셋 목록(데이터 제외)과 에셋별 미디어 파일, 사용 중인 타임라인 아이템을 조회합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'agent_get_asset',
+    method: 'agent.get_asset',
+    description: '에셋과 등록된 미디어 파일, 사용 중인 타임라인 아이템을 조회합니다. 등록된 에셋의 내용은 data 대신 미디어 파일(url)로 제공됩니다.',
+    inputSchema: objectSchema({ sessionId, assetId }, ['sessionId', 'assetId'])
+  },
+  {
+    name: 'agent_replace_asset',
+    method: 'agent.replace_asset',
+    description: '같은 ID의 에셋을 새 데이터로 교체하고, 이전 에셋을 쓰던 모든 클립의 원본을 바꿉니다 (클립과 에셋이 가리키는 미디어를 실행 취소 한 번으로 함께 복원).',
+    inputSchema: objectSchema({ sessionId, asset: generatedAsset }, ['sessionId', 'asset'])
+  },
+  {
+    name: 'agent_delete_asset',
+    method: 'agent.delete_asset',
+    description: '에셋을 삭제합니다. 타임라인이나 대기 중인 지시사항이 사용 중이면 거부합니다.',
+    inputSchema: objectSchema({ sessionId, assetId }, ['sessionId', 'assetId'])
+  },
+  {
+    name: 'agent_submit_directives',
+    method: 'agent.submit_directives',
+    description: '감독 에이전트의 편집 지시사항을 제출합니다. 지시사항마다 타입별 파라미터와 세션 상태를 검증해 잘못된 것은 이유와 함께 거부하고 나머지는 등록합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      directives: { type: 'array', items: editingDirective, description: '편집 지시사항 목록' }
+    }, ['sessionId', 'directives'])
+  },
+  {
+    name: 'agent_get_status',
+    method: 'agent.get_status',
+    description: '지시사항 처리 상태를 조회합니다.',
+    inputSchema: objectSchema({ sessionId }, ['sessionId'])
+  },
+  {
+    name: 'agent_execute_next',
+    method: 'agent.execute_next',
+    description: '의존성이 모두 완료된 다음 지시사항을 실행합니다.',
+    inputSchema: objectSchema({ sessionId, maxRetries }, ['sessionId'])
+  },
+  {
+    name: 'agent_execute_all',
+    method: 'agent.execute_all',
+    description: '실행할 수 있는 지시사항을 모두 차례로 실행합니다. 실패한 지시사항에 의존하는 지시사항은 건너뜁니다.',
+    inputSchema: objectSchema({ sessionId, maxRetries }, ['sessionId'])
+  },
+  {
+    name: 'agent_preview_directives',
+    method: 'agent.preview_directives',
+    description: '지시사항을 세션 복제본에서 미리 실행해 트랙별 클립 추가/삭제/이동/트림과 길이 변화를 반환합니다. 실제 세션은 바뀌지 않습니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      directives: { type: 'array', items: editingDirective, description: '미리 볼 지시사항 목록 (없으면 대기 중인 지시사항)' },
+      maxRetries
+    }, ['sessionId'])
+  },
+  {
+    name: 'agent_retry_directive',
+    method: 'agent.retry_directive',
+    description: '실패한 지시사항과 그 때문에 건너뛴 지시사항을 다시 대기열에 넣습니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      directiveId: string('지시사항 ID'),
+      maxRetries: { type: 'integer', minimum: 0, description: '지시사항의 재시도 횟수 변경' }
+    }, ['sessionId', 'directiveId'])
+  },
+
+  // === 렌더링 ===
+  {
+    name: 'render_export',
+    method: 'render.export',
+    description: '타임라인을 Remotion으로 렌더링하는 내보내기 작업을 시작합니다.',
+    inputSchema: objectSchema({
+      sessionId,
+      format: { type: 'string', enum: [...RENDER_FORMATS], description: '출력 형식 (기본 mp4)' },
+      quality: { type: 'string', enum: [...RENDER_QUALITIES], description: '출력 품질 (기본 high)' },
+      outputPath: string('출력 파일 경로 (기본 out/<sessionId>_<id>.<format>)')
+    }, ['sessionId'])
+  },
+  {
+    name: 'render_status',
+    method: 'render.status',
+    description: '내보내기 작업의 상태, 진행률(%), 남은 시간, 출력 경로, 오류를 조회합니다.',
+    inputSchema: objectSchema({ exportId: string('내보내기 작업 ID') }, ['exportId'])
+  },
+  {
+    name: 'render_cancel',
+    method: 'render.cancel',
+    description: '대기 또는 진행 중인 내보내기 작업을 취소합니다.',
+    inputSchema: objectSchema({ exportId: string('내보내기 작업 ID') }, ['exportId'])
+  },
+  {
+    name: 'render_list',
+    method: 'render.list',
+    description: '내보내기 작업 목록을 조회합니다 (sessionId 지정 시 해당 세션만).',
+    inputSchema: objectSchema({ sessionId })
+  }
+];
+
+// MCP 프로토콜 핸들러 - JSON-RPC 메시지를 비디오 편집 서버로 전달
+export class MCPProtocolHandler {
+  private server: MCPVideoEditingServer;
+  private tools: Map<string, MCPToolDefinition>;
+  private initialized: boolean = false;
+
+  constructor(server: MCPVideoEditingServer) {
+    this.server = server;
+    this.tools = new Map(MCP_TOOLS.map(tool => [tool.name, tool]));
+  }
+
+  // 원시 JSON 문자열 처리 (전송 계층용)
+  async handleRaw(raw: string): Promise<string | undefined> {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return JSON.stringify(this.errorResponse(null, MCPErrorCode.ParseError, 'Parse error'));
+    }
+
+    const response = await this.handleMessage(message);
+    return response === undefined ? undefined : JSON.stringify(response);
+  }
+
+  // 단일 메시지 또는 배치 처리 (알림에는 응답하지 않음)
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return this.errorResponse(null, MCPErrorCode.InvalidRequest, 'Invalid Request: empty batch');
+      }
+
+      const responses: JsonRpcResponse[] = [];
+      for (const entry of message) {
+        const response = await this.handleSingle(entry);
+        if (response) responses.push(response);
+      }
+      return responses.length > 0 ? responses : undefined;
+    }
+
+    return this.handleSingle(message);
+  }
+
+  private async handleSingle(message: unknown): Promise<JsonRpcResponse | undefined> {
+    if (!this.isRequest(message)) {
+      return this.errorResponse(null, MCPErrorCode.InvalidRequest, 'Invalid Request: jsonrpc "2.0" and method are required');
+    }
+
+    const { id, method, params = {} } = message;
+    const isNotification = id === undefined;
+
+    try {
+      const result = await this.dispatch(method, params);
+      return isNotification ? undefined : { jsonrpc: '2.0', id: id ?? null, result };
+    } catch (error) {
+      if (isNotification) return undefined;
+
+      return this.errorResponse(
+        id ?? null,
+        error instanceof MCPError ? error.code : MCPErrorCode.InternalError,
+        error instanceof Error ? error.message : 'Unknown error',
+        error instanceof MCPError ? error.data : undefined
+      );
+    }
+  }
+
+  // 메서드별 처리
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.handleInitialize(params);
+
+      case 'notifications/initialized':
+        this.initialized = true;
+        return {};
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return {
+          tools: MCP_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+        };
+
+      case 'tools/call':
+        return this.handleToolCall(params);
+
+      default: {
+        // 기존 편집 서버 메서드(edit.* 등)는 JSON-RPC로도 직접 호출 가능
+        const response = await this.server.handleRequest({ id: method, method, params: params as RequestParams });
+        if (response.error) {
+          throw new MCPError(response.error.code, response.error.message, response.error.data);
+        }
+        return response.result;
+      }
+    }
+  }
+
+  private handleInitialize(params: Record<string, unknown>) {
+    const requested = params.protocolVersion;
+    const protocolVersion = typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: false }
+      },
+      serverInfo: SERVER_INFO,
+      instructions: 'Remotion 기반 비디오 편집 서버입니다. session_create로 세션을 만든 뒤 반환된 sessionId를 각 도구에 전달하세요.'
+    };
+  }
+
+  // tools/call - 도구 실행 오류는 JSON-RPC 오류가 아닌 isError 결과로 반환 (MCP 규약)
+  private async handleToolCall(params: Record<string, unknown>) {
+    const { name, arguments: args = {} } = params as { name?: unknown; arguments?: Record<string, unknown> };
+    if (typeof name !== 'string') {
+      throw new MCPError(MCPErrorCode.InvalidParams, 'Invalid params: tool name is required');
+    }
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const missing = (tool.inputSchema.required || []).filter(key => args[key] === undefined);
+    if (missing.length > 0) {
+      throw new MCPError(MCPErrorCode.InvalidParams, `Missing required arguments: ${missing.join(', ')}`, { tool: name, missing });
+    }
+
+    const response = await this.server.handleRequest({ id: name, method: tool.method, params: args as RequestParams });
+    if (response.error) {
+      return {
+        content: [{ type: 'text', text: response.error.message }],
+        isError: true
+      };
+    }
+
+    // 결과는 JSON 텍스트로만 반환 (structuredContent는 지원하는 프로토콜 버전에 정의되어 있지 않음)
+    return {
+      content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+      isError: false
+    };
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  private isRequest(message: unknown): message is JsonRpcRequest {
+    if (typeof message !== 'object' || message === null) return false;
+    const candidate = message as Partial<JsonRpcRequest>;
+    return candidate.jsonrpc === '2.0' && typeof candidate.method === 'string';
+  }
+
+  private errorResponse(id: string | number | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: { code, message, data } };
+  }
+}
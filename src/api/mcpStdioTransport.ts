@@ -0,0 +1,64 @@
+// MCP stdio 전송 계층 - 줄 단위 JSON-RPC 메시지를 stdin으로 받고 stdout으로 응답 (Node 전용)
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { MCPProtocolHandler } from './mcpProtocol';
+
+export interface StdioTransportOptions {
+  input?: Readable;
+  output?: Writable;
+  onClose?: () => void;
+}
+
+export class MCPStdioTransport {
+  private handler: MCPProtocolHandler;
+  private input: Readable;
+  private output: Writable;
+  private onClose?: () => void;
+  private reader?: Interface;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(handler: MCPProtocolHandler, options: StdioTransportOptions = {}) {
+    this.handler = handler;
+    this.input = options.input || process.stdin;
+    this.output = options.output || process.stdout;
+    this.onClose = options.onClose;
+  }
+
+  // 입력 수신 시작
+  start(): void {
+    this.reader = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    this.reader.on('line', line => {
+      if (!line.trim()) return;
+
+      // 응답 순서를 요청 순서와 맞추기 위해 순차 처리
+      this.queue = this.queue.then(() => this.handleLine(line));
+    });
+
+    this.reader.on('close', () => {
+      this.queue.then(() => this.onClose?.());
+    });
+  }
+
+  // 수신 중지
+  stop(): void {
+    this.reader?.close();
+  }
+
+  // 서버 → 클라이언트 메시지 전송 (알림 등)
+  send(message: unknown): void {
+    this.output.write(JSON.stringify(message) + '\n');
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    try {
+      const response = await this.handler.handleRaw(line);
+      if (response !== undefined) {
+        this.output.write(response + '\n');
+      }
+    } catch (error) {
+      // stdout은 프로토콜 전용이므로 로그는 stderr로 출력
+      console.error('MCP stdio message handling error:', error);
+    }
+  }
+}
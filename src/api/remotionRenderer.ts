@@ -0,0 +1,93 @@
+// Remotion 서버 측 렌더러 - 세션 타임라인을 MyComposition으로 번들링 후 파일로 렌더링 (Node 전용)
+import { bundle } from '@remotion/bundler';
+import { makeCancelSignal, renderMedia, selectComposition } from '@remotion/renderer';
+import type { Codec } from '@remotion/renderer';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+import { RenderBackend, RenderFormat, RenderProgress, RenderQuality, RenderRequest } from './renderJobs';
+
+export interface RemotionRenderBackendOptions {
+  entryPoint?: string; // registerRoot가 있는 진입점
+  publicDir?: string; // staticFile() 기준 디렉터리 (업로드 파일 포함)
+  compositionId?: string;
+}
+
+// 출력 형식별 코덱
+const FORMAT_CODECS: Record<RenderFormat, Codec> = {
+  mp4: 'h264',
+  webm: 'vp8',
+  mov: 'prores',
+  gif: 'gif',
+  mp3: 'mp3',
+  wav: 'wav'
+};
+
+// 품질별 CRF (낮을수록 고화질, 코덱마다 범위가 다름)
+const QUALITY_CRF: Partial<Record<Codec, Record<RenderQuality, number>>> = {
+  h264: { low: 28, medium: 23, high: 18 },
+  vp8: { low: 40, medium: 24, high: 10 }
+};
+
+const QUALITY_PRORES_PROFILE = { low: 'proxy', medium: 'standard', high: 'hq' } as const;
+const QUALITY_AUDIO_BITRATE = { low: '128k', medium: '192k', high: '320k' } as const;
+
+export class RemotionRenderBackend implements RenderBackend {
+  private entryPoint: string;
+  private publicDir: string;
+  private compositionId: string;
+
+  constructor(options: RemotionRenderBackendOptions = {}) {
+    this.entryPoint = path.resolve(options.entryPoint || './src/index.ts');
+    this.publicDir = path.resolve(options.publicDir || './public');
+    this.compositionId = options.compositionId || 'MyComp';
+  }
+
+  async render(request: RenderRequest, onProgress: (progress: RenderProgress) => void, signal: AbortSignal): Promise<string> {
+    const outputPath = path.resolve(request.outputPath);
+    await mkdir(path.dirname(outputPath), { recursive: true });
+
+    // public 디렉터리는 번들 시점에 복사되므로 새 업로드 파일을 반영하려면 작업마다 번들링
+    const serveUrl = await bundle({
+      entryPoint: this.entryPoint,
+      publicDir: this.publicDir,
+      enableCaching: true,
+      onProgress: progress => onProgress({ stage: 'bundling', progress: progress / 100 })
+    });
+
+    try {
+      this.throwIfAborted(signal);
+
+      const inputProps = { ...request.compositionProps } as Record<string, unknown>;
+      const composition = await selectComposition({ serveUrl, id: this.compositionId, inputProps });
+      const codec = FORMAT_CODECS[request.format];
+      const { cancelSignal, cancel } = makeCancelSignal();
+      signal.addEventListener('abort', cancel, { once: true });
+
+      try {
+        await renderMedia({
+          serveUrl,
+          // 타임라인 길이/프레임 레이트로 컴포지션 설정 덮어쓰기
+          composition: { ...composition, durationInFrames: request.durationInFrames, fps: request.fps },
+          inputProps,
+          codec,
+          outputLocation: outputPath,
+          crf: QUALITY_CRF[codec]?.[request.quality] ?? null,
+          proResProfile: codec === 'prores' ? QUALITY_PRORES_PROFILE[request.quality] : undefined,
+          audioBitrate: codec === 'mp3' ? QUALITY_AUDIO_BITRATE[request.quality] : null,
+          cancelSignal,
+          onProgress: ({ progress }) => onProgress({ stage: 'rendering', progress })
+        });
+      } finally {
+        signal.removeEventListener('abort', cancel);
+      }
+    } finally {
+      await rm(serveUrl, { recursive: true, force: true });
+    }
+
+    return outputPath;
+  }
+
+  private throwIfAborted(signal: AbortSignal): void {
+    if (signal.aborted) throw new Error('Render cancelled');
+  }
+}
@@ -0,0 +1,172 @@
+// 렌더링 작업 관리 - 내보내기 작업 큐, 진행률/ETA/오류 추적 (실제 렌더러는 주입받으므로 브라우저에서도 import 가능)
+import { random } from 'remotion';
+import { EditorCompositionProps } from '../Composition';
+
+export const RENDER_FORMATS = ['mp4', 'webm', 'mov', 'gif', 'mp3', 'wav'] as const;
+export const RENDER_QUALITIES = ['low', 'medium', 'high'] as const;
+
+export type RenderFormat = typeof RENDER_FORMATS[number];
+export type RenderQuality = typeof RENDER_QUALITIES[number];
+export type RenderJobStatus = 'queued' | 'bundling' | 'rendering' | 'completed' | 'failed' | 'cancelled';
+
+// 렌더러에 전달하는 요청
+export interface RenderRequest {
+  compositionProps: EditorCompositionProps;
+  durationInFrames: number;
+  fps: number;
+  format: RenderFormat;
+  quality: RenderQuality;
+  outputPath: string;
+}
+
+// 렌더러 진행 보고 (progress: 0~1)
+export interface RenderProgress {
+  stage: 'bundling' | 'rendering';
+  progress: number;
+}
+
+// 렌더러 인터페이스 - Node 환경에서는 RemotionRenderBackend 사용
+export interface RenderBackend {
+  // 완료 시 실제 출력 파일 경로 반환, signal이 abort되면 중단 후 reject
+  render(request: RenderRequest, onProgress: (progress: RenderProgress) => void, signal: AbortSignal): Promise<string>;
+}
+
+// 내보내기 작업 상태
+export interface RenderJob {
+  id: string;
+  sessionId: string;
+  status: RenderJobStatus;
+  format: RenderFormat;
+  quality: RenderQuality;
+  outputPath: string;
+  progress: number; // 0~100 (%)
+  etaSeconds?: number; // 렌더링 단계에서만 계산
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+// 번들링은 전체 진행률의 앞 10%로 계산
+const BUNDLING_WEIGHT = 0.1;
+
+// 렌더링 작업 관리자 - 한 번에 하나씩 순차 렌더링
+export class RenderJobManager {
+  private backend?: RenderBackend;
+  private jobs: Map<string, RenderJob> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(backend?: RenderBackend) {
+    this.backend = backend;
+  }
+
+  isAvailable(): boolean {
+    return this.backend !== undefined;
+  }
+
+  // 작업 등록 후 큐에 추가
+  enqueue(sessionId: string, request: RenderRequest): RenderJob {
+    if (!this.backend) throw new Error('Render backend not configured');
+
+    const job: RenderJob = {
+      id: this.generateId(),
+      sessionId,
+      status: 'queued',
+      format: request.format,
+      quality: request.quality,
+      outputPath: request.outputPath,
+      progress: 0,
+      createdAt: Date.now()
+    };
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
+
+    this.queue = this.queue.then(() => this.run(job, request));
+    return { ...job };
+  }
+
+  getJob(jobId: string): RenderJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  listJobs(sessionId?: string): RenderJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !sessionId || job.sessionId === sessionId)
+      .map(job => ({ ...job }));
+  }
+
+  // 대기/진행 중인 작업 취소 (이미 끝난 작업이면 false)
+  cancel(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || this.isFinished(job)) return false;
+
+    this.controllers.get(jobId)?.abort();
+    this.finish(job, 'cancelled');
+    return true;
+  }
+
+  // 작업 완료 대기 (테스트/스크립트용)
+  async waitFor(jobId: string): Promise<RenderJob | undefined> {
+    await this.queue;
+    return this.getJob(jobId);
+  }
+
+  private async run(job: RenderJob, request: RenderRequest): Promise<void> {
+    const controller = this.controllers.get(job.id);
+    if (!controller || controller.signal.aborted || !this.backend) return;
+
+    job.startedAt = Date.now();
+    job.status = 'bundling';
+    let renderStartedAt: number | undefined;
+
+    try {
+      const outputPath = await this.backend.render(request, ({ stage, progress }) => {
+        if (this.isFinished(job)) return;
+
+        job.status = stage;
+        if (stage === 'bundling') {
+          job.progress = this.toPercent(progress * BUNDLING_WEIGHT);
+          return;
+        }
+
+        renderStartedAt ??= Date.now();
+        job.progress = this.toPercent(BUNDLING_WEIGHT + progress * (1 - BUNDLING_WEIGHT));
+        // 렌더링 단계 경과 시간으로 남은 시간 추정
+        if (progress > 0) {
+          const elapsed = (Date.now() - renderStartedAt) / 1000;
+          job.etaSeconds = Math.round((elapsed * (1 - progress)) / progress);
+        }
+      }, controller.signal);
+
+      if (this.isFinished(job)) return;
+      job.outputPath = outputPath;
+      job.progress = 100;
+      this.finish(job, 'completed');
+    } catch (error) {
+      if (this.isFinished(job)) return;
+      job.error = error instanceof Error ? error.message : String(error);
+      this.finish(job, 'failed');
+    }
+  }
+
+  private finish(job: RenderJob, status: 'completed' | 'failed' | 'cancelled'): void {
+    job.status = status;
+    job.finishedAt = Date.now();
+    job.etaSeconds = status === 'completed' ? 0 : undefined;
+    this.controllers.delete(job.id);
+  }
+
+  private isFinished(job: RenderJob): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+  }
+
+  private toPercent(progress: number): number {
+    return Math.round(Math.min(1, Math.max(0, progress)) * 1000) / 10;
+  }
+
+  private generateId(): string {
+    return 'render_' + Date.now().toString(36) + random(null).toString(36).substr(2);
+  }
+}
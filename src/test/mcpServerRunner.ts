@@ -3,17 +3,33 @@ const require = createRequire(import.meta.url);
 const express = require('express');
 const cors = require('cors');
 
-import { MCPVideoEditingServer, MCPRequest, MCPResponse } from '../api/mcpInterface';
+import { MCPVideoEditingServer, MCPRequest, MCPResponse, MCPErrorCode } from '../api/mcpInterface';
+import { MCPProtocolHandler } from '../api/mcpProtocol';
+import { FileSessionStore } from '../api/fileSessionStore';
+import { RemotionRenderBackend } from '../api/remotionRenderer';
+import { NodeMediaIngestor } from '../utils/nodeMediaIngestor';
+
+// Node 환경용 MCP 서버 (업로드 저장, 렌더링, 세션 파일 저장)
+export function createNodeMCPServer(): MCPVideoEditingServer {
+  return new MCPVideoEditingServer({
+    mediaIngestor: new NodeMediaIngestor(),
+    renderBackend: new RemotionRenderBackend(),
+    sessionStore: new FileSessionStore()
+  });
+}
 
 // MCP 서버를 HTTP API로 실행하는 서버
 class MCPHttpServer {
   private app: any;
   private mcpServer: MCPVideoEditingServer;
+  private protocolHandler: MCPProtocolHandler;
   private port: number;
 
-  constructor(port: number = 3000) {
+  // mcpServer를 전달하면 다른 전송 계층(stdio 등)과 세션을 공유
+  constructor(port: number = 3000, mcpServer: MCPVideoEditingServer = createNodeMCPServer()) {
     this.app = express();
-    this.mcpServer = new MCPVideoEditingServer();
+    this.mcpServer = mcpServer;
+    this.protocolHandler = new MCPProtocolHandler(this.mcpServer);
     this.port = port;
     this.setupMiddleware();
     this.setupRoutes();
@@ -47,13 +63,21 @@ class MCPHttpServer {
     // MCP 요청 처리 (POST)
     this.app.post('/mcp', async (req: any, res: any) => {
       try {
+        // 표준 JSON-RPC 2.0 메시지 (단일 또는 배치)는 MCP 프로토콜 핸들러로 처리
+        if (Array.isArray(req.body) || req.body?.jsonrpc === '2.0') {
+          const rpcResponse = await this.protocolHandler.handleMessage(req.body);
+          return rpcResponse === undefined ? res.status(202).end() : res.json(rpcResponse);
+        }
+
         const mcpRequest: MCPRequest = req.body;
         
         // 요청 검증
         if (!mcpRequest.id || !mcpRequest.method) {
           return res.status(400).json({
+            jsonrpc: '2.0',
+            id: null,
             error: {
-              code: -1,
+              code: MCPErrorCode.InvalidRequest,
               message: 'Invalid MCP request: id and method are required'
             }
           });
@@ -69,8 +93,10 @@ class MCPHttpServer {
       } catch (error) {
         console.error('MCP request processing error:', error);
         res.status(500).json({
+          jsonrpc: '2.0',
+          id: null,
           error: {
-            code: -1,
+            code: MCPErrorCode.InternalError,
             message: error instanceof Error ? error.message : 'Internal server error'
           }
         });
@@ -238,7 +264,7 @@ class MCPHttpServer {
    Health: http://localhost:${this.port}/health
    
    Available endpoints:
-   - POST   /mcp                        (Raw MCP requests)
+   - POST   /mcp                        (MCP JSON-RPC 2.0 / raw MCP requests)
    - POST   /sessions                   (Create session)
    - GET    /sessions                   (List sessions)
    - POST   /sessions/:id/tracks        (Create track)
@@ -263,10 +289,14 @@ class MCPHttpServer {
 
 // 스크립트 직접 실행시
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const server = new MCPHttpServer(3000);
+  const mcpServer = createNodeMCPServer();
+  const server = new MCPHttpServer(3000, mcpServer);
   
-  // 서버 시작
-  server.start().catch(error => {
+  // 저장된 세션 복원 후 서버 시작
+  mcpServer.restoreSessions().then(restored => {
+    console.log(`📂 Restored ${restored.length} saved session(s)`);
+    return server.start();
+  }).catch(error => {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
   });
@@ -0,0 +1,51 @@
+import { MCPProtocolHandler } from '../api/mcpProtocol';
+import { MCPStdioTransport } from '../api/mcpStdioTransport';
+import { createNodeMCPServer, MCPHttpServer } from './mcpServerRunner';
+
+// MCP 서버를 stdio로 실행 - MCP 호스트가 서브프로세스로 실행
+// stdout은 JSON-RPC 메시지 전용이므로 모든 로그는 stderr로 보냄
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+
+// --http [port] 옵션: 같은 세션 맵을 HTTP로도 노출
+function parseHttpPort(args: string[]): number | undefined {
+  const index = args.indexOf('--http');
+  if (index === -1) return undefined;
+
+  const port = Number(args[index + 1]);
+  return Number.isInteger(port) && port > 0 ? port : 3000;
+}
+
+export async function startStdioServer(args: string[] = process.argv.slice(2)) {
+  const mcpServer = createNodeMCPServer();
+  const restored = await mcpServer.restoreSessions();
+  console.error(`📂 Restored ${restored.length} saved session(s)`);
+  const transport = new MCPStdioTransport(new MCPProtocolHandler(mcpServer), {
+    onClose: () => {
+      console.error('🛑 stdin closed, stopping MCP stdio server');
+      process.exit(0);
+    }
+  });
+
+  const httpPort = parseHttpPort(args);
+  if (httpPort !== undefined) {
+    await new MCPHttpServer(httpPort, mcpServer).start();
+  }
+
+  transport.start();
+  console.error('🚀 MCP Video Editing Server is running on stdio');
+
+  return { mcpServer, transport };
+}
+
+// 스크립트 직접 실행시
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startStdioServer().catch(error => {
+    console.error('❌ Failed to start stdio server:', error);
+    process.exit(1);
+  });
+
+  process.on('SIGINT', () => process.exit(0));
+  process.on('SIGTERM', () => process.exit(0));
+}
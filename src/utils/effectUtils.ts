@@ -0,0 +1,155 @@
+// 클립 비주얼 효과 - 효과 정의, 검증, CSS 필터 변환 (브라우저/Node 공용, 렌더링은 Composition의 MediaRenderer)
+
+// 효과 종류 - 클립마다 종류별로 하나씩, 추가한 순서대로 적용
+export const EFFECT_TYPES = [
+  'brightness',
+  'contrast',
+  'saturation',
+  'blur',
+  'grayscale',
+  'sepia',
+  'vignette',
+  'chroma_key',
+  'color_preset'
+] as const;
+export type EffectType = typeof EFFECT_TYPES[number];
+
+// LUT 스타일 색보정 프리셋
+export const COLOR_PRESETS = ['warm', 'cool', 'vintage', 'noir', 'vivid', 'cinematic'] as const;
+export type ColorPreset = typeof COLOR_PRESETS[number];
+
+// 클립 효과
+//   amount - brightness/contrast/saturation: 배율 (1 = 원본), blur: 반경 (px),
+//            grayscale/sepia/vignette/color_preset: 강도 (0~1)
+//   color/tolerance - chroma_key: 투명하게 만들 색 (#rrggbb)과 허용 범위 (0~1)
+export interface ClipEffect {
+  type: EffectType;
+  amount?: number;
+  color?: string;
+  tolerance?: number;
+  preset?: ColorPreset;
+}
+
+// 지정하지 않은 amount의 기본값
+export const EFFECT_DEFAULT_AMOUNTS: Partial<Record<EffectType, number>> = {
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  blur: 4,
+  grayscale: 1,
+  sepia: 1,
+  vignette: 0.5,
+  color_preset: 1
+};
+
+export const CHROMA_KEY_DEFAULTS = { color: '#00ff00', tolerance: 0.3 };
+
+// CSS 필터 함수 (identity: 효과 없음에 해당하는 값)
+interface FilterStep {
+  name: string;
+  value: number;
+  identity: number;
+  unit?: string;
+}
+
+const COLOR_PRESET_FILTERS: Record<ColorPreset, FilterStep[]> = {
+  warm: [
+    { name: 'sepia', value: 0.25, identity: 0 },
+    { name: 'saturate', value: 1.2, identity: 1 },
+    { name: 'hue-rotate', value: -8, identity: 0, unit: 'deg' }
+  ],
+  cool: [
+    { name: 'saturate', value: 1.1, identity: 1 },
+    { name: 'hue-rotate', value: 12, identity: 0, unit: 'deg' },
+    { name: 'brightness', value: 1.05, identity: 1 }
+  ],
+  vintage: [
+    { name: 'sepia', value: 0.45, identity: 0 },
+    { name: 'contrast', value: 0.9, identity: 1 },
+    { name: 'saturate', value: 0.8, identity: 1 },
+    { name: 'brightness', value: 1.05, identity: 1 }
+  ],
+  noir: [
+    { name: 'grayscale', value: 1, identity: 0 },
+    { name: 'contrast', value: 1.35, identity: 1 },
+    { name: 'brightness', value: 0.9, identity: 1 }
+  ],
+  vivid: [
+    { name: 'saturate', value: 1.6, identity: 1 },
+    { name: 'contrast', value: 1.1, identity: 1 }
+  ],
+  cinematic: [
+    { name: 'contrast', value: 1.15, identity: 1 },
+    { name: 'saturate', value: 0.85, identity: 1 },
+    { name: 'sepia', value: 0.1, identity: 0 }
+  ]
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// 효과 검증 - 문제가 있으면 이유, 없으면 undefined
+export function validateEffect(effect: ClipEffect): string | undefined {
+  const { type, amount, color, tolerance, preset } = effect;
+  if (!EFFECT_TYPES.includes(type)) return `Unknown effect type: ${type}`;
+
+  if (amount !== undefined) {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) return `${type} amount must be a non-negative number`;
+    if (['grayscale', 'sepia', 'vignette', 'color_preset'].includes(type) && amount > 1) return `${type} amount must be between 0 and 1`;
+  }
+  if (type === 'chroma_key') {
+    if (color !== undefined && (typeof color !== 'string' || !HEX_COLOR.test(color))) return 'chroma_key color must be a #rrggbb hex color';
+    if (tolerance !== undefined && (typeof tolerance !== 'number' || tolerance <= 0 || tolerance > 1)) {
+      return 'chroma_key tolerance must be greater than 0 and at most 1';
+    }
+  }
+  if (type === 'color_preset' && !COLOR_PRESETS.includes(preset as ColorPreset)) {
+    return `Unknown color preset: ${preset} (expected ${COLOR_PRESETS.join(', ')})`;
+  }
+  return undefined;
+}
+
+// CSS filter 값 - chroma_key는 SVG 필터(url)로 가장 먼저, vignette는 오버레이라 제외
+export function buildCssFilter(effects: ClipEffect[], chromaKeyFilterId?: string): string | undefined {
+  const steps: string[] = [];
+  if (chromaKeyFilterId && effects.some(effect => effect.type === 'chroma_key')) steps.push(`url(#${chromaKeyFilterId})`);
+
+  effects.forEach(effect => {
+    const amount = effect.amount ?? EFFECT_DEFAULT_AMOUNTS[effect.type] ?? 1;
+    switch (effect.type) {
+      case 'brightness':
+      case 'contrast':
+      case 'grayscale':
+      case 'sepia':
+        steps.push(`${effect.type}(${amount})`);
+        break;
+      case 'saturation':
+        steps.push(`saturate(${amount})`);
+        break;
+      case 'blur':
+        steps.push(`blur(${amount}px)`);
+        break;
+      case 'color_preset':
+        // 강도만큼 원본(identity)과 프리셋 값 사이를 보간
+        COLOR_PRESET_FILTERS[effect.preset as ColorPreset]?.forEach(({ name, value, identity, unit = '' }) => {
+          steps.push(`${name}(${identity + (value - identity) * amount}${unit})`);
+        });
+        break;
+    }
+  });
+
+  return steps.length > 0 ? steps.join(' ') : undefined;
+}
+
+// 크로마 키 SVG feColorMatrix 값 - 키 색 방향(밝기 성분 제외)과 비슷한 정도에 따라 알파를 낮춤
+// 키 색과 같으면 알파 0, 유사도가 (1 - tolerance) 이하면 알파 1
+export function chromaKeyMatrix(color: string, tolerance: number): string {
+  const key = [1, 3, 5].map(index => parseInt(color.slice(index, index + 2), 16) / 255);
+  const mean = (key[0] + key[1] + key[2]) / 3;
+  const direction = key.map(channel => channel - mean);
+  const lengthSquared = direction.reduce((sum, channel) => sum + channel * channel, 0);
+  // 무채색 키는 색 방향이 없으므로 키잉하지 않음
+  if (lengthSquared === 0) return '1 0 0 0 0  0 1 0 0 0  0 0 1 0 0  0 0 0 1 0';
+
+  const alpha = direction.map(channel => -channel / (tolerance * lengthSquared));
+  return `1 0 0 0 0  0 1 0 0 0  0 0 1 0 0  ${alpha.join(' ')} 0 ${1 / tolerance}`;
+}
@@ -0,0 +1,488 @@
+// 미디어 컨테이너 헤더 분석 (브라우저/Node 공용, 외부 의존성 없음)
+// 지원 형식: MP4/MOV(ISO BMFF), WebM/MKV(EBML), WAV, MP3, PNG, JPEG
+
+export interface MediaProbeResult {
+  container?: 'mp4' | 'mov' | 'webm' | 'matroska' | 'wav' | 'mp3' | 'png' | 'jpeg';
+  duration?: number; // 초
+  width?: number;
+  height?: number;
+  fps?: number;
+  frameRate?: FrameRate;
+  videoCodec?: string;
+  audioCodec?: string;
+  audioChannels?: number;
+  sampleRate?: number;
+}
+
+// 유리수 프레임 레이트 (예: 29.97fps = 30000/1001)
+export interface FrameRate {
+  numerator: number;
+  denominator: number;
+}
+
+// 표준 프레임 레이트 (NTSC 계열 포함)
+const STANDARD_FRAME_RATES: FrameRate[] = [
+  { numerator: 24000, denominator: 1001 },
+  { numerator: 24, denominator: 1 },
+  { numerator: 25, denominator: 1 },
+  { numerator: 30000, denominator: 1001 },
+  { numerator: 30, denominator: 1 },
+  { numerator: 48, denominator: 1 },
+  { numerator: 50, denominator: 1 },
+  { numerator: 60000, denominator: 1001 },
+  { numerator: 60, denominator: 1 },
+  { numerator: 100, denominator: 1 },
+  { numerator: 120000, denominator: 1001 },
+  { numerator: 120, denominator: 1 }
+];
+
+// 측정된 프레임 레이트를 가장 가까운 표준 값으로 보정 (타임스탬프 반올림 오차 흡수)
+export function normalizeFrameRate(fps: number): FrameRate {
+  const distance = (rate: FrameRate) => Math.abs(rate.numerator / rate.denominator - fps);
+  const nearest = STANDARD_FRAME_RATES.reduce((best, rate) => (distance(rate) < distance(best) ? rate : best));
+  // NTSC 값과 정수 값의 차이(0.1%)보다 작은 허용 오차
+  if (distance(nearest) < 0.0005 * fps) return nearest;
+
+  // 비표준 값은 1/1000 단위 유리수로 표현
+  return { numerator: Math.round(fps * 1000), denominator: 1000 };
+}
+
+// 바이트 배열에서 컨테이너를 감지해 메타데이터 추출 (알 수 없는 형식은 빈 결과)
+export function probeMedia(data: Uint8Array): MediaProbeResult {
+  const result = probeContainer(data);
+
+  if (result.fps !== undefined && Number.isFinite(result.fps) && result.fps > 0) {
+    result.frameRate = normalizeFrameRate(result.fps);
+    result.fps = result.frameRate.numerator / result.frameRate.denominator;
+  } else {
+    delete result.fps;
+  }
+
+  return result;
+}
+
+function probeContainer(data: Uint8Array): MediaProbeResult {
+  try {
+    if (isPng(data)) return probePng(data);
+    if (isJpeg(data)) return probeJpeg(data);
+    if (isWav(data)) return probeWav(data);
+    if (isEbml(data)) return probeEbml(data);
+    if (isIsoBmff(data)) return probeIsoBmff(data);
+    if (isMp3(data)) return probeMp3(data);
+  } catch {
+    // 손상된 헤더는 분석 가능한 부분까지만 사용
+  }
+  return {};
+}
+
+// === 공통 헬퍼 ===
+
+const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+const ascii = (data: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...data.subarray(offset, offset + length));
+
+const readUint64 = (dv: DataView, offset: number): number =>
+  dv.getUint32(offset) * 2 ** 32 + dv.getUint32(offset + 4);
+
+// === PNG ===
+
+const isPng = (data: Uint8Array) =>
+  data.length >= 24 && data[0] === 0x89 && ascii(data, 1, 3) === 'PNG';
+
+function probePng(data: Uint8Array): MediaProbeResult {
+  const dv = view(data);
+  return { container: 'png', width: dv.getUint32(16), height: dv.getUint32(20) };
+}
+
+// === JPEG ===
+
+const isJpeg = (data: Uint8Array) => data.length >= 4 && data[0] === 0xff && data[1] === 0xd8;
+
+function probeJpeg(data: Uint8Array): MediaProbeResult {
+  const dv = view(data);
+  let offset = 2;
+
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = data[offset + 1];
+    // 길이 필드가 없는 마커
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+
+    // SOF0~SOF15 (DHT, JPG, DAC 제외)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { container: 'jpeg', height: dv.getUint16(offset + 5), width: dv.getUint16(offset + 7) };
+    }
+
+    offset += 2 + dv.getUint16(offset + 2);
+  }
+
+  return { container: 'jpeg' };
+}
+
+// === WAV ===
+
+const isWav = (data: Uint8Array) =>
+  data.length >= 12 && ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WAVE';
+
+function probeWav(data: Uint8Array): MediaProbeResult {
+  const dv = view(data);
+  const result: MediaProbeResult = { container: 'wav' };
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const chunkId = ascii(data, offset, 4);
+    const chunkSize = dv.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const format = dv.getUint16(body, true);
+      const bitsPerSample = dv.getUint16(body + 14, true);
+      result.audioChannels = dv.getUint16(body + 2, true);
+      result.sampleRate = dv.getUint32(body + 4, true);
+      byteRate = dv.getUint32(body + 8, true);
+      result.audioCodec = format === 1
+        ? `pcm_s${bitsPerSample}le`
+        : format === 3 ? `pcm_f${bitsPerSample}le` : `wav_0x${format.toString(16)}`;
+    } else if (chunkId === 'data' && byteRate > 0) {
+      // 스트리밍으로 기록된 파일은 크기가 0xFFFFFFFF일 수 있음
+      const dataSize = chunkSize === 0xffffffff ? data.length - body : chunkSize;
+      result.duration = dataSize / byteRate;
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return result;
+}
+
+// === MP3 ===
+
+const MP3_BITRATES = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+const id3Size = (data: Uint8Array): number => {
+  if (data.length < 10 || ascii(data, 0, 3) !== 'ID3') return 0;
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+};
+
+const isMp3FrameHeader = (data: Uint8Array, offset: number) =>
+  offset + 4 <= data.length &&
+  data[offset] === 0xff &&
+  (data[offset + 1] & 0xe0) === 0xe0 &&
+  ((data[offset + 1] >> 1) & 0x03) === 0x01 && // Layer III
+  (data[offset + 2] >> 4) !== 0x0f &&
+  ((data[offset + 2] >> 2) & 0x03) !== 0x03;
+
+const isMp3 = (data: Uint8Array) => id3Size(data) > 0 || isMp3FrameHeader(data, 0);
+
+function probeMp3(data: Uint8Array): MediaProbeResult {
+  let offset = id3Size(data);
+  while (offset < data.length && !isMp3FrameHeader(data, offset)) offset++;
+  if (offset >= data.length) return { container: 'mp3' };
+
+  const versionBits = (data[offset + 1] >> 3) & 0x03; // 3: MPEG1, 2: MPEG2, 0: MPEG2.5
+  const isMpeg1 = versionBits === 3;
+  const bitrate = (isMpeg1 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)[data[offset + 2] >> 4] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[(data[offset + 2] >> 2) & 0x03] / (isMpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const isMono = (data[offset + 3] >> 6) === 0x03;
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+
+  const result: MediaProbeResult = {
+    container: 'mp3',
+    audioCodec: 'mp3',
+    audioChannels: isMono ? 1 : 2,
+    sampleRate
+  };
+
+  // VBR 헤더 (Xing/Info 또는 VBRI)에서 전체 프레임 수 확인
+  const dv = view(data);
+  const sideInfo = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  const xing = offset + 4 + sideInfo;
+  const vbri = offset + 36;
+  let frameCount: number | undefined;
+
+  if (xing + 12 <= data.length && ['Xing', 'Info'].includes(ascii(data, xing, 4)) && (dv.getUint32(xing + 4) & 0x01)) {
+    frameCount = dv.getUint32(xing + 8);
+  } else if (vbri + 18 <= data.length && ascii(data, vbri, 4) === 'VBRI') {
+    frameCount = dv.getUint32(vbri + 14);
+  }
+
+  if (frameCount !== undefined) {
+    result.duration = (frameCount * samplesPerFrame) / sampleRate;
+  } else if (bitrate > 0) {
+    result.duration = ((data.length - offset) * 8) / bitrate;
+  }
+
+  return result;
+}
+
+// === MP4 / MOV (ISO BMFF) ===
+
+const isIsoBmff = (data: Uint8Array) =>
+  data.length >= 12 && ['ftyp', 'moov', 'mdat', 'wide', 'free'].includes(ascii(data, 4, 4));
+
+interface Box {
+  type: string;
+  start: number; // 본문 시작
+  end: number;
+}
+
+// 하위 박스 목록
+function readBoxes(data: Uint8Array, start: number, end: number): Box[] {
+  const dv = view(data);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    const type = ascii(data, offset + 4, 4);
+    let header = 8;
+
+    if (size === 1) {
+      size = readUint64(dv, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+const findBox = (data: Uint8Array, parent: Box, type: string): Box | undefined =>
+  readBoxes(data, parent.start, parent.end).find(box => box.type === type);
+
+function probeIsoBmff(data: Uint8Array): MediaProbeResult {
+  const dv = view(data);
+  const topLevel = readBoxes(data, 0, data.length);
+  const ftyp = topLevel.find(box => box.type === 'ftyp');
+  const result: MediaProbeResult = {
+    container: ftyp && ascii(data, ftyp.start, 4) === 'qt  ' ? 'mov' : 'mp4'
+  };
+
+  const moov = topLevel.find(box => box.type === 'moov');
+  if (!moov) return result;
+
+  // 전체 길이 (mvhd)
+  const mvhd = findBox(data, moov, 'mvhd');
+  if (mvhd) {
+    const version = data[mvhd.start];
+    const timescale = dv.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+    const duration = version === 1 ? readUint64(dv, mvhd.start + 24) : dv.getUint32(mvhd.start + 16);
+    if (timescale > 0) result.duration = duration / timescale;
+  }
+
+  readBoxes(data, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .forEach(trak => probeTrack(data, trak, result));
+
+  return result;
+}
+
+// 트랙별 정보 (tkhd, mdhd, hdlr, stsd, stts)
+function probeTrack(data: Uint8Array, trak: Box, result: MediaProbeResult): void {
+  const dv = view(data);
+  const mdia = findBox(data, trak, 'mdia');
+  if (!mdia) return;
+
+  const hdlr = findBox(data, mdia, 'hdlr');
+  const handler = hdlr ? ascii(data, hdlr.start + 8, 4) : '';
+  const mdhd = findBox(data, mdia, 'mdhd');
+  const timescale = mdhd ? dv.getUint32(mdhd.start + (data[mdhd.start] === 1 ? 20 : 12)) : 0;
+
+  const stbl = findBox(data, mdia, 'minf') && findBox(data, findBox(data, mdia, 'minf')!, 'stbl');
+  const stsd = stbl && findBox(data, stbl, 'stsd');
+  // 첫 번째 샘플 엔트리: 크기(4) + 코덱 fourcc(4) + 예약(6) + 참조 인덱스(2)
+  const entry = stsd ? stsd.start + 8 : -1;
+  const codec = entry >= 0 ? ascii(data, entry + 4, 4).trim() : undefined;
+
+  if (handler === 'vide' && result.videoCodec === undefined) {
+    result.videoCodec = codec;
+
+    const tkhd = findBox(data, trak, 'tkhd');
+    if (tkhd) {
+      const sizeOffset = tkhd.start + (data[tkhd.start] === 1 ? 88 : 76);
+      result.width = dv.getUint32(sizeOffset) / 65536;
+      result.height = dv.getUint32(sizeOffset + 4) / 65536;
+    }
+    if ((!result.width || !result.height) && entry >= 0) {
+      result.width = dv.getUint16(entry + 32);
+      result.height = dv.getUint16(entry + 34);
+    }
+
+    // 프레임 레이트: 샘플 수 / 샘플 길이 합계 (stts)
+    const stts = stbl && findBox(data, stbl, 'stts');
+    if (stts && timescale > 0) {
+      const entryCount = dv.getUint32(stts.start + 4);
+      let samples = 0;
+      let totalDelta = 0;
+      for (let i = 0; i < entryCount; i++) {
+        const sampleCount = dv.getUint32(stts.start + 8 + i * 8);
+        samples += sampleCount;
+        totalDelta += sampleCount * dv.getUint32(stts.start + 12 + i * 8);
+      }
+      if (totalDelta > 0) result.fps = (samples * timescale) / totalDelta;
+    }
+  } else if (handler === 'soun' && result.audioCodec === undefined) {
+    result.audioCodec = codec;
+    if (entry >= 0) {
+      result.audioChannels = dv.getUint16(entry + 24);
+      result.sampleRate = dv.getUint32(entry + 32) / 65536;
+    }
+  }
+}
+
+// === WebM / Matroska (EBML) ===
+
+const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675
+};
+
+const isEbml = (data: Uint8Array) =>
+  data.length >= 4 && view(data).getUint32(0) === EBML_IDS.EBML;
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  end: number;
+}
+
+// 가변 길이 정수 (keepMarker: 요소 ID는 마커 비트 포함)
+function readVint(data: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } {
+  const first = data[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    if (data[offset + i] !== 0xff) allOnes = false;
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readElements(data: Uint8Array, start: number, end: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const id = readVint(data, offset, true);
+    const size = readVint(data, offset + id.length, false);
+    const bodyStart = offset + id.length + size.length;
+    const bodyEnd = size.unknown ? end : Math.min(bodyStart + size.value, end);
+
+    elements.push({ id: id.value, start: bodyStart, end: bodyEnd });
+    // 클러스터 이후는 미디어 데이터이므로 분석 중단
+    if (id.value === EBML_IDS.Cluster) break;
+    offset = bodyEnd;
+  }
+
+  return elements;
+}
+
+const readUint = (data: Uint8Array, element: EbmlElement): number =>
+  Array.from(data.subarray(element.start, element.end)).reduce((value, byte) => value * 256 + byte, 0);
+
+const readFloat = (data: Uint8Array, element: EbmlElement): number => {
+  const dv = view(data);
+  return element.end - element.start === 4 ? dv.getFloat32(element.start) : dv.getFloat64(element.start);
+};
+
+function probeEbml(data: Uint8Array): MediaProbeResult {
+  const [header, ...rest] = readElements(data, 0, data.length);
+  const docType = readElements(data, header.start, header.end).find(el => el.id === EBML_IDS.DocType);
+  const result: MediaProbeResult = {
+    container: docType && ascii(data, docType.start, docType.end - docType.start) === 'webm' ? 'webm' : 'matroska'
+  };
+
+  const segment = rest.find(el => el.id === EBML_IDS.Segment);
+  if (!segment) return result;
+
+  const children = readElements(data, segment.start, segment.end);
+
+  const info = children.find(el => el.id === EBML_IDS.Info);
+  if (info) {
+    const infoChildren = readElements(data, info.start, info.end);
+    const scale = infoChildren.find(el => el.id === EBML_IDS.TimecodeScale);
+    const duration = infoChildren.find(el => el.id === EBML_IDS.Duration);
+    const timecodeScale = scale ? readUint(data, scale) : 1000000; // 나노초 단위
+    if (duration) result.duration = (readFloat(data, duration) * timecodeScale) / 1e9;
+  }
+
+  const tracks = children.find(el => el.id === EBML_IDS.Tracks);
+  if (!tracks) return result;
+
+  readElements(data, tracks.start, tracks.end)
+    .filter(el => el.id === EBML_IDS.TrackEntry)
+    .forEach(entry => {
+      const fields = readElements(data, entry.start, entry.end);
+      const field = (id: number) => fields.find(el => el.id === id);
+      const trackType = field(EBML_IDS.TrackType);
+      const codecId = field(EBML_IDS.CodecID);
+      const codec = codecId ? ascii(data, codecId.start, codecId.end - codecId.start).replace(/\0+$/, '') : undefined;
+
+      if (trackType && readUint(data, trackType) === 1 && result.videoCodec === undefined) {
+        result.videoCodec = codec;
+        const defaultDuration = field(EBML_IDS.DefaultDuration);
+        if (defaultDuration) result.fps = 1e9 / readUint(data, defaultDuration);
+
+        const video = field(EBML_IDS.Video);
+        if (video) {
+          const videoFields = readElements(data, video.start, video.end);
+          const width = videoFields.find(el => el.id === EBML_IDS.PixelWidth);
+          const height = videoFields.find(el => el.id === EBML_IDS.PixelHeight);
+          if (width) result.width = readUint(data, width);
+          if (height) result.height = readUint(data, height);
+        }
+      } else if (trackType && readUint(data, trackType) === 2 && result.audioCodec === undefined) {
+        result.audioCodec = codec;
+        const audio = field(EBML_IDS.Audio);
+        if (audio) {
+          const audioFields = readElements(data, audio.start, audio.end);
+          const channels = audioFields.find(el => el.id === EBML_IDS.Channels);
+          const sampling = audioFields.find(el => el.id === EBML_IDS.SamplingFrequency);
+          result.audioChannels = channels ? readUint(data, channels) : 1;
+          if (sampling) result.sampleRate = readFloat(data, sampling);
+        }
+      }
+    });
+
+  return result;
+}
@@ -1,11 +1,18 @@
 // 미디어 파일 처리 유틸리티
 import { random } from 'remotion';
+import { FrameRate, probeMedia } from './mediaProbe';
 
 export interface MediaMetadata {
   duration?: number;
   width?: number;
   height?: number;
   fps?: number;
+  frameRate?: FrameRate; // 정확한 유리수 값 (예: 24000/1001)
+  container?: string;
+  videoCodec?: string;
+  audioCodec?: string;
+  audioChannels?: number;
+  sampleRate?: number;
   fileSize: number;
   mimeType: string;
   createdAt: Date;
@@ -18,15 +25,79 @@ export interface MediaFile {
   type: 'video' | 'audio' | 'image';
   metadata: MediaMetadata;
   thumbnail?: string;
+  assetId?: string; // 에이전트 생성 에셋(GeneratedAsset)에서 등록된 경우 에셋 ID
+  contentHash?: string; // 내용 해시 (원격 URL은 URL 기준, 에셋 중복 등록 확인용)
+}
+
+// 미디어 데이터 문자열 구분 - http(s):, file: 또는 /로 시작하면 URL, 그 외는 base64 (data:...;base64, 접두어 허용)
+export const MEDIA_URL_PATTERN = /^(https?:|file:|\/)/i;
+export const BASE64_DATA_PATTERN = /^(data:[^,]*;base64,)?[A-Za-z0-9+/\s]*={0,2}\s*$/;
+
+// 서버 측 미디어 수집 결과
+export interface IngestedMedia {
+  url: string;
+  metadata: Partial<MediaMetadata>;
+  thumbnail?: string;
+}
+
+// 서버 측 미디어 수집기 - DOM 없이 파일 저장, 메타데이터 분석, 썸네일 생성 (Node 구현: nodeMediaIngestor.ts)
+export interface MediaIngestor {
+  ingest(data: Uint8Array, fileName: string, mimeType: string, uploadPath: string): Promise<IngestedMedia>;
+}
+
+// 메모리 수집기 - 파일을 저장하지 않고 헤더만 분석 (지시사항 미리보기용, URL은 저장했을 경우의 경로)
+export class ProbeOnlyMediaIngestor implements MediaIngestor {
+  async ingest(data: Uint8Array, fileName: string, _mimeType: string, uploadPath: string): Promise<IngestedMedia> {
+    const { duration, width, height, fps, frameRate, container, videoCodec, audioCodec, audioChannels, sampleRate } = probeMedia(data);
+    return {
+      url: `${uploadPath}/${fileName}`,
+      metadata: { duration, width, height, fps, frameRate, container, videoCodec, audioCodec, audioChannels, sampleRate }
+    };
+  }
 }
 
 // 미디어 파일 업로드 및 처리
 export class MediaFileManager {
   private mediaFiles: Map<string, MediaFile> = new Map();
   private uploadPath: string;
+  private ingestor?: MediaIngestor;
 
-  constructor(uploadPath: string = './public/uploads') {
+  constructor(uploadPath: string = './public/uploads', ingestor?: MediaIngestor) {
     this.uploadPath = uploadPath;
+    this.ingestor = ingestor;
+  }
+
+  // 바이트 데이터 업로드 처리 (수집기가 있으면 DOM 없이 처리)
+  async uploadData(data: ArrayBuffer | Uint8Array, name: string, mimeType: string): Promise<MediaFile> {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+    if (!this.ingestor) {
+      const uploaded = await this.uploadFile(new File([bytes], name, { type: mimeType }));
+      uploaded.contentHash = MediaFileManager.hashContent(bytes);
+      return uploaded;
+    }
+
+    const fileId = this.generateId();
+    const mediaType = this.detectMediaType(mimeType);
+    const ingested = await this.ingestor.ingest(bytes, `${fileId}_${name}`, mimeType, this.uploadPath);
+
+    const mediaFile: MediaFile = {
+      id: fileId,
+      name,
+      url: ingested.url,
+      type: mediaType,
+      metadata: {
+        ...ingested.metadata,
+        fileSize: bytes.byteLength,
+        mimeType,
+        createdAt: new Date()
+      },
+      thumbnail: ingested.thumbnail,
+      contentHash: MediaFileManager.hashContent(bytes)
+    };
+
+    this.mediaFiles.set(fileId, mediaFile);
+    return mediaFile;
   }
 
   // 파일 업로드 처리
@@ -56,6 +127,26 @@ export class MediaFileManager {
     return mediaFile;
   }
 
+  // 원격 URL 등록 - 파일을 저장하지 않고 URL을 그대로 참조 (메타데이터는 호출자가 제공)
+  addRemoteMedia(url: string, name: string, mimeType: string, metadata: Partial<MediaMetadata> = {}): MediaFile {
+    const mediaFile: MediaFile = {
+      id: this.generateId(),
+      name,
+      url,
+      type: this.detectMediaType(mimeType),
+      metadata: {
+        ...metadata,
+        fileSize: metadata.fileSize ?? 0,
+        mimeType,
+        createdAt: new Date()
+      },
+      contentHash: MediaFileManager.hashContent(url)
+    };
+
+    this.mediaFiles.set(mediaFile.id, mediaFile);
+    return mediaFile;
+  }
+
   // 미디어 파일 목록 조회
   getMediaFiles(): MediaFile[] {
     return Array.from(this.mediaFiles.values());
@@ -66,11 +157,47 @@ export class MediaFileManager {
     return this.mediaFiles.get(id);
   }
 
+  // 같은 내용의 미디어 파일 조회
+  findByContentHash(contentHash: string): MediaFile | undefined {
+    return this.getMediaFiles().find(mediaFile => mediaFile.contentHash === contentHash);
+  }
+
   // 미디어 파일 삭제
   deleteMediaFile(id: string): boolean {
     return this.mediaFiles.delete(id);
   }
 
+  // 미디어 라이브러리 내보내기
+  export(): MediaFile[] {
+    return this.getMediaFiles();
+  }
+
+  // 미디어 라이브러리 가져오기 (JSON 복원 시 문자열이 된 createdAt을 Date로 되돌림)
+  import(mediaFiles: MediaFile[]): void {
+    this.mediaFiles.clear();
+    mediaFiles.forEach(mediaFile => {
+      this.mediaFiles.set(mediaFile.id, {
+        ...mediaFile,
+        metadata: { ...mediaFile.metadata, createdAt: new Date(mediaFile.metadata.createdAt) }
+      });
+    });
+  }
+
+  // 내용 해시 (중복 확인용, 암호학적 해시 아님) - 길이와 64비트 해시(32비트 두 갈래)를 16진수로
+  static hashContent(data: Uint8Array | string): string {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < bytes.length; i++) {
+      h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+      h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+    return `${bytes.length.toString(16)}-${hex(h2)}${hex(h1)}`;
+  }
+
   // 파일 타입 감지
   private detectMediaType(mimeType: string): 'video' | 'audio' | 'image' {
     if (mimeType.startsWith('video/')) return 'video';
@@ -87,9 +214,16 @@ export class MediaFileManager {
       createdAt: new Date()
     };
 
+    // 컨테이너 헤더 분석 (코덱, 채널 수 등 DOM으로 알 수 없는 정보)
+    const { container, videoCodec, audioCodec, audioChannels, sampleRate, duration, fps, frameRate } =
+      probeMedia(new Uint8Array(await file.arrayBuffer()));
+    Object.assign(metadata, { container, videoCodec, audioCodec, audioChannels, sampleRate, fps, frameRate });
+
     if (file.type.startsWith('video/')) {
       const videoMetadata = await this.extractVideoMetadata(file);
       Object.assign(metadata, videoMetadata);
+    } else if (file.type.startsWith('audio/')) {
+      metadata.duration = duration;
     } else if (file.type.startsWith('image/')) {
       const imageMetadata = await this.extractImageMetadata(file);
       Object.assign(metadata, imageMetadata);
@@ -105,11 +239,11 @@ export class MediaFileManager {
       video.preload = 'metadata';
       
       video.onloadedmetadata = () => {
+        // 프레임 레이트는 컨테이너 헤더 분석 결과 사용 (video 요소로는 알 수 없음)
         resolve({
           duration: video.duration,
           width: video.videoWidth,
-          height: video.videoHeight,
-          fps: 30 // 기본값, 실제 구현에서는 더 정확한 방법 필요
+          height: video.videoHeight
         });
         URL.revokeObjectURL(video.src);
       };
@@ -225,4 +359,23 @@ export class TimeUtils {
   static formatFrameTime(frame: number, fps: number = 30): string {
     return this.formatTime(this.framesToSeconds(frame, fps));
   }
+
+  // 타임코드를 초로 변환 - 12, 12.5, 12.5s, MM:SS(.ms), HH:MM:SS(.ms), HH:MM:SS:FF (형식이 틀리면 undefined)
+  static parseTimecode(value: string, fps: number = 30): number | undefined {
+    const text = value.trim();
+    const seconds = /^(\d+(?:\.\d+)?)s?$/.exec(text);
+    if (seconds) return Number(seconds[1]);
+
+    const parts = text.split(':');
+    if (parts.length < 2 || parts.length > 4) return undefined;
+    const frames = parts.length === 4 ? parts.pop()! : undefined;
+    if (frames !== undefined && !/^\d+$/.test(frames)) return undefined;
+    if (!parts.slice(0, -1).every(part => /^\d+$/.test(part)) || !/^\d+(?:\.\d+)?$/.test(parts[parts.length - 1])) return undefined;
+
+    const [secs, minutes = 0, hours = 0] = parts.map(Number).reverse();
+    // 가장 큰 단위를 제외하고는 범위를 넘을 수 없음 (90:00은 90분)
+    if (secs >= 60 || (parts.length === 3 && minutes >= 60)) return undefined;
+    if (frames !== undefined && (Number(frames) >= fps || !Number.isInteger(secs))) return undefined;
+    return hours * 3600 + minutes * 60 + secs + (frames !== undefined ? Number(frames) / fps : 0);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Node용 미디어 수집기 - 업로드 파일 저장, 헤더 분석, 썸네일 파일 생성 (DOM 불필요)
+import { execFile } from 'child_process';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { IngestedMedia, MediaIngestor, TimeUtils } from './mediaUtils';
+import { probeMedia } from './mediaProbe';
+
+export interface NodeMediaIngestorOptions {
+  publicDir?: string; // staticFile() 기준 디렉터리
+  ffmpegPath?: string; // 비디오 썸네일 추출용 (없으면 SVG 포스터로 대체)
+}
+
+export class NodeMediaIngestor implements MediaIngestor {
+  private publicDir: string;
+  private ffmpegPath: string;
+
+  constructor(options: NodeMediaIngestorOptions = {}) {
+    this.publicDir = path.resolve(options.publicDir || './public');
+    this.ffmpegPath = options.ffmpegPath || 'ffmpeg';
+  }
+
+  async ingest(data: Uint8Array, fileName: string, mimeType: string, uploadPath: string): Promise<IngestedMedia> {
+    const directory = path.resolve(uploadPath);
+    const filePath = path.join(directory, this.sanitizeFileName(fileName));
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(filePath, data);
+
+    const { duration, width, height, fps, frameRate, container, videoCodec, audioCodec, audioChannels, sampleRate } = probeMedia(data);
+    const metadata = { duration, width, height, fps, frameRate, container, videoCodec, audioCodec, audioChannels, sampleRate };
+
+    let thumbnailPath: string | undefined;
+    if (mimeType.startsWith('image/')) {
+      // 이미지는 원본 파일을 썸네일로 사용
+      thumbnailPath = filePath;
+    } else if (mimeType.startsWith('video/')) {
+      thumbnailPath = await this.createVideoThumbnail(filePath, metadata);
+    }
+
+    return {
+      url: this.toUrl(filePath),
+      metadata,
+      thumbnail: thumbnailPath ? this.toUrl(thumbnailPath) : undefined
+    };
+  }
+
+  // 비디오 썸네일 - ffmpeg로 1초 지점 프레임 추출, 실패 시 크기/길이를 표시한 SVG 포스터 생성
+  private async createVideoThumbnail(
+    filePath: string,
+    metadata: { duration?: number; width?: number; height?: number }
+  ): Promise<string> {
+    const base = filePath.replace(/\.[^./\\]+$/, '');
+    const jpegPath = `${base}_thumb.jpg`;
+    const seekTime = Math.min(1, (metadata.duration || 0) / 2);
+
+    const extracted = await new Promise<boolean>(resolve => {
+      execFile(
+        this.ffmpegPath,
+        ['-y', '-loglevel', 'error', '-ss', seekTime.toFixed(3), '-i', filePath, '-frames:v', '1', '-vf', 'scale=320:-2', jpegPath],
+        { timeout: 30000 },
+        error => resolve(!error)
+      );
+    });
+    if (extracted) return jpegPath;
+
+    const svgPath = `${base}_thumb.svg`;
+    await writeFile(svgPath, this.createPosterSvg(metadata));
+    return svgPath;
+  }
+
+  private createPosterSvg(metadata: { duration?: number; width?: number; height?: number }): string {
+    const width = 320;
+    const height = metadata.width && metadata.height ? Math.round((width * metadata.height) / metadata.width) : 180;
+    const label = [
+      metadata.width && metadata.height ? `${metadata.width}×${metadata.height}` : undefined,
+      metadata.duration !== undefined ? TimeUtils.formatTime(metadata.duration) : undefined
+    ].filter(Boolean).join(' · ');
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<rect width="100%" height="100%" fill="#222"/>`,
+      `<polygon points="${width / 2 - 16},${height / 2 - 20} ${width / 2 - 16},${height / 2 + 20} ${width / 2 + 20},${height / 2}" fill="#fff" opacity="0.8"/>`,
+      `<text x="8" y="${height - 10}" fill="#fff" font-family="Arial" font-size="14">${label}</text>`,
+      `</svg>`
+    ].join('');
+  }
+
+  // public 디렉터리 안이면 staticFile()용 상대 경로, 아니면 절대 경로
+  private toUrl(filePath: string): string {
+    const relative = path.relative(this.publicDir, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return filePath;
+    return relative.split(path.sep).join('/');
+  }
+
+  private sanitizeFileName(fileName: string): string {
+    return path.basename(fileName).replace(/[^\w.-]+/g, '_');
+  }
+}
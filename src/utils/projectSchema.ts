@@ -0,0 +1,528 @@
+// 프로젝트 파일 스키마 - 버전 관리, 이전 버전 마이그레이션, 가져오기 검증 (브라우저/Node 공용)
+//
+// 버전별 형식 (JSON)
+//   v0: 버전 필드 없는 TimelineManager.export() 데이터 { tracks, currentFrame, totalDuration, fps }
+//   v1: 세션 전체 { version, sessionId, savedAt, timeline, mediaFiles, keyframes, agents,
+//                   pendingDirectives, completedDirectives, generatedAssets }
+//   v2: 타임라인 아이템이 mediaId로 미디어 라이브러리 항목을 참조
+//   v3: 텍스트 아이템 (type: 'text', text, textStyle)
+//   v4: 트랙의 클립 간 트랜지션 (transitions)
+//   v5: 아이템의 비주얼 효과 스택 (effects)
+//   v6: pendingDirectives/completedDirectives 대신 지시사항 전체(directives)와 실행 상태(directiveStates)
+//
+// totalDuration은 저장되지만 가져올 때 아이템 배치로 다시 계산함
+import type { AgentType, DirectiveState, EditingDirective, GeneratedAsset } from '../api/mcpInterface';
+import type { MediaFile } from './mediaUtils';
+import type { KeyframeExportData, TimelineExportData } from './timelineUtils';
+import { ClipEffect, validateEffect } from './effectUtils';
+import {
+  ITEM_TYPES,
+  OVERLAP_POLICIES,
+  TEXT_ALIGNS,
+  TRACK_TYPES,
+  TRANSITION_ALIGNMENTS,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_TYPES
+} from './timelineConstants';
+
+export const PROJECT_SCHEMA_VERSION = 6;
+
+// 세션 프로젝트 파일 데이터 (현재 버전)
+export interface SessionProjectData {
+  version: number;
+  sessionId: string;
+  savedAt: string;
+  timeline: TimelineExportData;
+  mediaFiles: MediaFile[];
+  keyframes: KeyframeExportData;
+  agents: { agentType: AgentType; agentId: string }[];
+  directives: EditingDirective[];
+  directiveStates: DirectiveState[]; // 이전 버전에서 완료된 지시사항은 본문 없이 상태만 있음
+  generatedAssets: GeneratedAsset[];
+}
+
+// 검증 오류 항목 - path는 오류 위치 (예: timeline.tracks[0].items[2].startFrame)
+export type ProjectIssueCode =
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'unknown_track_type'
+  | 'unknown_item_type'
+  | 'negative_frame'
+  | 'duplicate_id'
+  | 'dangling_media_reference'
+  | 'dangling_item_reference'
+  | 'unsupported_version';
+
+export interface ProjectValidationIssue {
+  code: ProjectIssueCode;
+  path: string;
+  message: string;
+}
+
+// 검증 실패 오류 - 모든 문제를 issues로 전달
+export class ProjectValidationError extends Error {
+  issues: ProjectValidationIssue[];
+
+  constructor(issues: ProjectValidationIssue[]) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(`Invalid project data: ${summary}${more}`);
+    this.name = 'ProjectValidationError';
+    this.issues = issues;
+  }
+}
+
+const DIRECTIVE_STATUSES = ['pending', 'running', 'completed', 'failed', 'skipped'];
+
+// v2 이전 edit.add_text가 만들던 가짜 텍스트 이미지 (실제 텍스트 내용은 저장되지 않았음)
+const LEGACY_TEXT_IMAGE_PREFIX = 'data:image/png;base64,generated_text_';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = (values: readonly string[], value: unknown): boolean => values.includes(value as string);
+
+// 검증 결과 수집기
+class IssueCollector {
+  issues: ProjectValidationIssue[] = [];
+
+  report(code: ProjectIssueCode, path: string, message: string): void {
+    this.issues.push({ code, path, message });
+  }
+
+  // 타입 확인 후 맞지 않으면 invalid_type 보고
+  expect(value: unknown, path: string, type: 'string' | 'number' | 'boolean' | 'array' | 'object', optional = false): boolean {
+    if (value === undefined && optional) return false;
+
+    const valid = type === 'array' ? Array.isArray(value)
+      : type === 'object' ? isObject(value)
+      : type === 'number' ? isNumber(value)
+      : typeof value === type;
+    if (!valid) this.report('invalid_type', path, `Expected ${type}`);
+    return valid;
+  }
+
+  // 프레임 값 확인 (0 이상)
+  expectFrame(value: unknown, path: string, optional = false): void {
+    if (this.expect(value, path, 'number', optional) && (value as number) < 0) {
+      this.report('negative_frame', path, `Frame must not be negative (got ${value})`);
+    }
+  }
+}
+
+// 타임라인 데이터 검증 (TimelineManager.import 전에 호출)
+export function validateTimelineData(data: unknown, path: string = 'timeline'): ProjectValidationIssue[] {
+  const collector = new IssueCollector();
+  validateTimeline(collector, data, path);
+  return collector.issues;
+}
+
+// 프로젝트 데이터 검증 (현재 버전 기준, 마이그레이션 후 호출)
+export function validateProjectData(data: unknown): ProjectValidationIssue[] {
+  const collector = new IssueCollector();
+  if (!collector.expect(data, 'project', 'object')) return collector.issues;
+  const project = data as JsonObject;
+
+  if (project.version !== PROJECT_SCHEMA_VERSION) {
+    collector.report('unsupported_version', 'version', `Expected version ${PROJECT_SCHEMA_VERSION} (got ${project.version})`);
+  }
+  collector.expect(project.sessionId, 'sessionId', 'string');
+  collector.expect(project.savedAt, 'savedAt', 'string', true);
+
+  const { itemIds, mediaReferences } = validateTimeline(collector, project.timeline, 'timeline');
+
+  // 미디어 라이브러리
+  const mediaIds = new Set<string>();
+  if (collector.expect(project.mediaFiles, 'mediaFiles', 'array')) {
+    (project.mediaFiles as unknown[]).forEach((mediaFile, index) => {
+      const mediaPath = `mediaFiles[${index}]`;
+      if (!collector.expect(mediaFile, mediaPath, 'object')) return;
+
+      const { id, url, type } = mediaFile as JsonObject;
+      if (collector.expect(id, `${mediaPath}.id`, 'string')) {
+        if (mediaIds.has(id as string)) collector.report('duplicate_id', `${mediaPath}.id`, `Duplicate media ID: ${id}`);
+        mediaIds.add(id as string);
+      }
+      collector.expect(url, `${mediaPath}.url`, 'string');
+      if (!isOneOf(ITEM_TYPES, type)) {
+        collector.report('unknown_item_type', `${mediaPath}.type`, `Unknown media type: ${type}`);
+      }
+    });
+  }
+
+  // 아이템 → 미디어 참조
+  mediaReferences.forEach(({ mediaId, path }) => {
+    if (!mediaIds.has(mediaId)) {
+      collector.report('dangling_media_reference', `${path}.mediaId`, `Media file not found: ${mediaId}`);
+    }
+  });
+
+  // 키프레임 → 아이템 참조
+  if (collector.expect(project.keyframes, 'keyframes', 'object')) {
+    Object.entries(project.keyframes as JsonObject).forEach(([itemId, keyframes]) => {
+      const keyframePath = `keyframes.${itemId}`;
+      if (!itemIds.has(itemId)) {
+        collector.report('dangling_item_reference', keyframePath, `Timeline item not found: ${itemId}`);
+      }
+      if (!collector.expect(keyframes, keyframePath, 'array')) return;
+
+      (keyframes as unknown[]).forEach((keyframe, index) => {
+        if (!collector.expect(keyframe, `${keyframePath}[${index}]`, 'object')) return;
+        const { frame, property } = keyframe as JsonObject;
+        // 분할/앞쪽 트림 뒤에는 클립 시작 이전(음수) 키프레임이 남아 경계의 보간 값을 유지
+        collector.expect(frame, `${keyframePath}[${index}].frame`, 'number');
+        collector.expect(property, `${keyframePath}[${index}].property`, 'string');
+      });
+    });
+  }
+
+  // 에이전트 협업 상태
+  if (collector.expect(project.agents, 'agents', 'array')) {
+    (project.agents as unknown[]).forEach((agent, index) => {
+      if (!collector.expect(agent, `agents[${index}]`, 'object')) return;
+      collector.expect((agent as JsonObject).agentType, `agents[${index}].agentType`, 'string');
+      collector.expect((agent as JsonObject).agentId, `agents[${index}].agentId`, 'string');
+    });
+  }
+  validateDirectives(collector, project.directives, project.directiveStates);
+  validateIdList(collector, project.generatedAssets, 'generatedAssets');
+
+  return collector.issues;
+}
+
+// 이전 버전 프로젝트 데이터를 현재 버전으로 변환
+export function migrateProjectData(data: unknown, sessionId: string = ''): JsonObject {
+  const collector = new IssueCollector();
+  if (!collector.expect(data, 'project', 'object')) throw new ProjectValidationError(collector.issues);
+
+  let project = structuredClone(data as JsonObject);
+  let version = detectVersion(project);
+
+  if (version === undefined || version > PROJECT_SCHEMA_VERSION) {
+    collector.report('unsupported_version', 'version', `Unsupported project version: ${project.version ?? 'unknown'}`);
+    throw new ProjectValidationError(collector.issues);
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    project = MIGRATIONS[version](project, sessionId);
+    version = project.version as number;
+  }
+  return project;
+}
+
+// 마이그레이션 + 검증 (실패 시 ProjectValidationError)
+export function parseProjectData(data: unknown, sessionId?: string): SessionProjectData {
+  const project = migrateProjectData(data, sessionId);
+  const issues = validateProjectData(project);
+  if (issues.length > 0) throw new ProjectValidationError(issues);
+  return project as unknown as SessionProjectData;
+}
+
+// 버전 마이그레이션 - 키는 원본 버전, 결과는 다음 버전
+type ProjectMigration = (project: JsonObject, sessionId: string) => JsonObject;
+
+const MIGRATIONS: Record<number, ProjectMigration> = {
+  // v0 → v1: 타임라인만 있던 데이터를 세션 프로젝트로 감쌈
+  0: (timeline, sessionId) => ({
+    version: 1,
+    sessionId,
+    savedAt: new Date().toISOString(),
+    timeline,
+    mediaFiles: [],
+    keyframes: {},
+    agents: [],
+    pendingDirectives: [],
+    completedDirectives: [],
+    generatedAssets: []
+  }),
+
+  // v1 → v2: 아이템의 src와 같은 URL의 미디어 파일을 mediaId로 연결
+  1: project => {
+    const mediaFiles = Array.isArray(project.mediaFiles) ? project.mediaFiles.filter(isObject) : [];
+    const timeline = isObject(project.timeline) ? project.timeline : {};
+    const tracks = Array.isArray(timeline.tracks) ? timeline.tracks.filter(isObject) : [];
+
+    tracks.forEach(track => {
+      const items = Array.isArray(track.items) ? track.items.filter(isObject) : [];
+      items.forEach(item => {
+        const mediaFile = mediaFiles.find(file => file.url === item.src);
+        if (mediaFile && item.mediaId === undefined) item.mediaId = mediaFile.id;
+      });
+    });
+
+    return { ...project, version: 2 };
+  },
+
+  // v2 → v3: 가짜 텍스트 이미지를 빈 텍스트 아이템으로 변환 (내용은 복구 불가)
+  2: project => {
+    const timeline = isObject(project.timeline) ? project.timeline : {};
+    const tracks = Array.isArray(timeline.tracks) ? timeline.tracks.filter(isObject) : [];
+
+    tracks.forEach(track => {
+      const items = Array.isArray(track.items) ? track.items.filter(isObject) : [];
+      items.forEach(item => {
+        if (item.type !== 'image' || typeof item.src !== 'string' || !item.src.startsWith(LEGACY_TEXT_IMAGE_PREFIX)) return;
+        item.type = 'text';
+        item.src = '';
+        item.text = '';
+      });
+    });
+
+    return { ...project, version: 3 };
+  },
+
+  // v3 → v4: 트랜지션 없는 트랙은 그대로 유효
+  3: project => ({ ...project, version: 4 }),
+
+  // v4 → v5: 효과 없는 아이템은 그대로 유효
+  4: project => ({ ...project, version: 5 }),
+
+  // v5 → v6: 대기/완료 목록을 지시사항 상태로 변환 (실패한 지시사항은 이전 버전에서 버려짐)
+  5: project => {
+    const { pendingDirectives, completedDirectives, ...rest } = project;
+    const pending = Array.isArray(pendingDirectives) ? pendingDirectives.filter(isObject) : [];
+    const completed = Array.isArray(completedDirectives) ? completedDirectives.filter(id => typeof id === 'string') : [];
+
+    return {
+      ...rest,
+      version: 6,
+      directives: pending,
+      directiveStates: [
+        ...completed.map(id => ({ id, status: 'completed', attempts: 1 })),
+        ...pending.map(directive => ({ id: directive.id, status: 'pending', attempts: 0 }))
+      ]
+    };
+  }
+};
+
+function detectVersion(project: JsonObject): number | undefined {
+  if (project.version === undefined) return Array.isArray(project.tracks) ? 0 : undefined;
+  return Number.isInteger(project.version) && (project.version as number) >= 0 ? project.version as number : undefined;
+}
+
+// 타임라인 검증 - 참조 검사용으로 아이템 ID와 미디어 참조 목록 반환
+function validateTimeline(
+  collector: IssueCollector,
+  data: unknown,
+  path: string
+): { itemIds: Set<string>; mediaReferences: { path: string; mediaId: string }[] } {
+  const itemIds = new Set<string>();
+  const mediaReferences: { path: string; mediaId: string }[] = [];
+  const result = { itemIds, mediaReferences };
+  if (!collector.expect(data, path, 'object')) return result;
+  const timeline = data as JsonObject;
+
+  if (collector.expect(timeline.fps, `${path}.fps`, 'number', true) && (timeline.fps as number) <= 0) {
+    collector.report('invalid_value', `${path}.fps`, `Frame rate must be positive (got ${timeline.fps})`);
+  }
+  collector.expectFrame(timeline.currentFrame, `${path}.currentFrame`, true);
+  if (!collector.expect(timeline.tracks, `${path}.tracks`, 'array')) return result;
+
+  const trackIds = new Set<string>();
+  (timeline.tracks as unknown[]).forEach((track, trackIndex) => {
+    const trackPath = `${path}.tracks[${trackIndex}]`;
+    if (!collector.expect(track, trackPath, 'object')) return;
+
+    const { id, name, type, isLocked, isVisible, volume, overlapPolicy } = track as JsonObject;
+    if (collector.expect(id, `${trackPath}.id`, 'string')) {
+      if (trackIds.has(id as string)) collector.report('duplicate_id', `${trackPath}.id`, `Duplicate track ID: ${id}`);
+      trackIds.add(id as string);
+    }
+    collector.expect(name, `${trackPath}.name`, 'string');
+    if (!isOneOf(TRACK_TYPES, type)) {
+      collector.report('unknown_track_type', `${trackPath}.type`, `Unknown track type: ${type} (expected ${TRACK_TYPES.join(', ')})`);
+    }
+    collector.expect(isLocked, `${trackPath}.isLocked`, 'boolean');
+    collector.expect(isVisible, `${trackPath}.isVisible`, 'boolean');
+    collector.expect(volume, `${trackPath}.volume`, 'number', true);
+    if (overlapPolicy !== undefined && !isOneOf(OVERLAP_POLICIES, overlapPolicy)) {
+      collector.report('invalid_value', `${trackPath}.overlapPolicy`, `Unknown overlap policy: ${overlapPolicy} (expected ${OVERLAP_POLICIES.join(', ')})`);
+    }
+
+    const trackItems = (track as JsonObject).items;
+    if (!collector.expect(trackItems, `${trackPath}.items`, 'array')) return;
+
+    (trackItems as unknown[]).forEach((item, itemIndex) => {
+      const itemPath = `${trackPath}.items[${itemIndex}]`;
+      if (!collector.expect(item, itemPath, 'object')) return;
+      const mediaItem = item as JsonObject;
+
+      if (collector.expect(mediaItem.id, `${itemPath}.id`, 'string')) {
+        if (itemIds.has(mediaItem.id as string)) collector.report('duplicate_id', `${itemPath}.id`, `Duplicate item ID: ${mediaItem.id}`);
+        itemIds.add(mediaItem.id as string);
+      }
+      if (!isOneOf(ITEM_TYPES, mediaItem.type)) {
+        collector.report('unknown_item_type', `${itemPath}.type`, `Unknown item type: ${mediaItem.type}`);
+      }
+      collector.expect(mediaItem.src, `${itemPath}.src`, 'string');
+      if (collector.expect(mediaItem.mediaId, `${itemPath}.mediaId`, 'string', true)) {
+        mediaReferences.push({ path: itemPath, mediaId: mediaItem.mediaId as string });
+      }
+      collector.expectFrame(mediaItem.startFrame, `${itemPath}.startFrame`);
+      if (collector.expect(mediaItem.durationInFrames, `${itemPath}.durationInFrames`, 'number') && (mediaItem.durationInFrames as number) <= 0) {
+        collector.report('invalid_value', `${itemPath}.durationInFrames`, `Duration must be positive (got ${mediaItem.durationInFrames})`);
+      }
+      collector.expectFrame(mediaItem.sourceStartFrame, `${itemPath}.sourceStartFrame`, true);
+      if (collector.expect(mediaItem.sourceDurationInFrames, `${itemPath}.sourceDurationInFrames`, 'number', true)) {
+        const sourceEnd = ((mediaItem.sourceStartFrame as number) || 0) + (mediaItem.durationInFrames as number);
+        if (isNumber(sourceEnd) && sourceEnd > (mediaItem.sourceDurationInFrames as number)) {
+          collector.report('invalid_value', `${itemPath}.sourceDurationInFrames`, `Source range ends at ${sourceEnd}, beyond source duration ${mediaItem.sourceDurationInFrames}`);
+        }
+      }
+      ['x', 'y', 'width', 'height'].forEach(key => collector.expect(mediaItem[key], `${itemPath}.${key}`, 'number'));
+      ['opacity', 'scale', 'rotation'].forEach(key => collector.expect(mediaItem[key], `${itemPath}.${key}`, 'number', true));
+      if (collector.expect(mediaItem.effects, `${itemPath}.effects`, 'array', true)) {
+        const effectTypes = new Set<unknown>();
+        (mediaItem.effects as unknown[]).forEach((effect, effectIndex) => {
+          const effectPath = `${itemPath}.effects[${effectIndex}]`;
+          if (!collector.expect(effect, effectPath, 'object')) return;
+          const problem = validateEffect(effect as unknown as ClipEffect);
+          if (problem) collector.report('invalid_value', effectPath, problem);
+          const { type } = effect as JsonObject;
+          if (effectTypes.has(type)) collector.report('invalid_value', `${effectPath}.type`, `Duplicate effect type: ${type}`);
+          effectTypes.add(type);
+        });
+      }
+      if (mediaItem.type === 'text') {
+        collector.expect(mediaItem.text, `${itemPath}.text`, 'string');
+        validateTextStyle(collector, mediaItem.textStyle, `${itemPath}.textStyle`);
+      }
+    });
+
+    const trackItemIds = new Set((trackItems as unknown[]).filter(isObject).map(item => item.id));
+    validateTransitions(collector, (track as JsonObject).transitions, `${trackPath}.transitions`, trackItemIds);
+  });
+
+  return result;
+}
+
+// 트랙 트랜지션 검증 - 앞/뒤 아이템은 같은 트랙에 있어야 함
+function validateTransitions(collector: IssueCollector, value: unknown, path: string, trackItemIds: Set<unknown>): void {
+  if (!collector.expect(value, path, 'array', true)) return;
+
+  const ids = new Set<string>();
+  (value as unknown[]).forEach((entry, index) => {
+    const transitionPath = `${path}[${index}]`;
+    if (!collector.expect(entry, transitionPath, 'object')) return;
+    const { id, type, fromItemId, toItemId, durationInFrames, alignment, direction } = entry as JsonObject;
+
+    if (collector.expect(id, `${transitionPath}.id`, 'string')) {
+      if (ids.has(id as string)) collector.report('duplicate_id', `${transitionPath}.id`, `Duplicate transition ID: ${id}`);
+      ids.add(id as string);
+    }
+    if (!isOneOf(TRANSITION_TYPES, type)) {
+      collector.report('invalid_value', `${transitionPath}.type`, `Unknown transition type: ${type} (expected ${TRANSITION_TYPES.join(', ')})`);
+    }
+    [['fromItemId', fromItemId], ['toItemId', toItemId]].forEach(([key, itemId]) => {
+      if (collector.expect(itemId, `${transitionPath}.${key}`, 'string') && !trackItemIds.has(itemId)) {
+        collector.report('dangling_item_reference', `${transitionPath}.${key}`, `Transition references an item not on this track: ${itemId}`);
+      }
+    });
+    if (collector.expect(durationInFrames, `${transitionPath}.durationInFrames`, 'number') && (durationInFrames as number) <= 0) {
+      collector.report('invalid_value', `${transitionPath}.durationInFrames`, `Duration must be positive (got ${durationInFrames})`);
+    }
+    if (!isOneOf(TRANSITION_ALIGNMENTS, alignment)) {
+      collector.report('invalid_value', `${transitionPath}.alignment`, `Unknown transition alignment: ${alignment} (expected ${TRANSITION_ALIGNMENTS.join(', ')})`);
+    }
+    if (direction !== undefined && !isOneOf(TRANSITION_DIRECTIONS, direction)) {
+      collector.report('invalid_value', `${transitionPath}.direction`, `Unknown transition direction: ${direction} (expected ${TRANSITION_DIRECTIONS.join(', ')})`);
+    }
+  });
+}
+
+// 텍스트 스타일 검증 (선택 항목)
+function validateTextStyle(collector: IssueCollector, value: unknown, path: string): void {
+  if (!collector.expect(value, path, 'object', true)) return;
+  const style = value as JsonObject;
+
+  collector.expect(style.fontFamily, `${path}.fontFamily`, 'string', true);
+  collector.expect(style.color, `${path}.color`, 'string', true);
+  if (collector.expect(style.fontSize, `${path}.fontSize`, 'number', true) && (style.fontSize as number) <= 0) {
+    collector.report('invalid_value', `${path}.fontSize`, `Font size must be positive (got ${style.fontSize})`);
+  }
+  if (style.fontWeight !== undefined && !isNumber(style.fontWeight) && style.fontWeight !== 'normal' && style.fontWeight !== 'bold') {
+    collector.report('invalid_value', `${path}.fontWeight`, `Unknown font weight: ${style.fontWeight}`);
+  }
+  if (style.align !== undefined && !isOneOf(TEXT_ALIGNS, style.align)) {
+    collector.report('invalid_value', `${path}.align`, `Unknown alignment: ${style.align} (expected ${TEXT_ALIGNS.join(', ')})`);
+  }
+  if (collector.expect(style.stroke, `${path}.stroke`, 'object', true)) {
+    const stroke = style.stroke as JsonObject;
+    collector.expect(stroke.color, `${path}.stroke.color`, 'string');
+    collector.expect(stroke.width, `${path}.stroke.width`, 'number');
+  }
+  if (collector.expect(style.shadow, `${path}.shadow`, 'object', true)) {
+    const shadow = style.shadow as JsonObject;
+    collector.expect(shadow.color, `${path}.shadow.color`, 'string');
+    ['blur', 'offsetX', 'offsetY'].forEach(key => collector.expect(shadow[key], `${path}.shadow.${key}`, 'number'));
+  }
+  if (collector.expect(style.background, `${path}.background`, 'object', true)) {
+    const background = style.background as JsonObject;
+    collector.expect(background.color, `${path}.background.color`, 'string');
+    ['padding', 'borderRadius'].forEach(key => collector.expect(background[key], `${path}.background.${key}`, 'number', true));
+  }
+}
+
+// 지시사항과 실행 상태 검증 - 의존성은 지시사항 또는 상태 ID를 참조해야 함
+function validateDirectives(collector: IssueCollector, directives: unknown, states: unknown): void {
+  const ids = new Set<unknown>();
+  validateIdList(collector, directives, 'directives');
+  if (Array.isArray(directives)) {
+    directives.filter(isObject).forEach(directive => ids.add(directive.id));
+  }
+
+  if (collector.expect(states, 'directiveStates', 'array')) {
+    const stateIds = new Set<unknown>();
+    (states as unknown[]).forEach((state, index) => {
+      const path = `directiveStates[${index}]`;
+      if (!collector.expect(state, path, 'object')) return;
+      const { id, status, attempts, error } = state as JsonObject;
+      if (collector.expect(id, `${path}.id`, 'string')) {
+        if (stateIds.has(id)) collector.report('duplicate_id', `${path}.id`, `Duplicate directive state: ${id}`);
+        stateIds.add(id);
+        ids.add(id);
+      }
+      if (collector.expect(status, `${path}.status`, 'string') && !DIRECTIVE_STATUSES.includes(status as string)) {
+        collector.report('invalid_value', `${path}.status`, `Unknown directive status: ${status}`);
+      }
+      if (collector.expect(attempts, `${path}.attempts`, 'number') && (attempts as number) < 0) {
+        collector.report('invalid_value', `${path}.attempts`, `Attempts must not be negative (got ${attempts})`);
+      }
+      collector.expect(error, `${path}.error`, 'string', true);
+    });
+  }
+
+  if (!Array.isArray(directives)) return;
+  directives.forEach((directive, index) => {
+    if (!isObject(directive)) return;
+    const path = `directives[${index}]`;
+    if (collector.expect(directive.dependsOn, `${path}.dependsOn`, 'array', true)) {
+      (directive.dependsOn as unknown[]).forEach((dependency, dependencyIndex) => {
+        if (!collector.expect(dependency, `${path}.dependsOn[${dependencyIndex}]`, 'string')) return;
+        if (!ids.has(dependency)) {
+          collector.report('dangling_item_reference', `${path}.dependsOn[${dependencyIndex}]`, `Unknown directive: ${dependency}`);
+        }
+      });
+    }
+    if (collector.expect(directive.maxRetries, `${path}.maxRetries`, 'number', true) && (directive.maxRetries as number) < 0) {
+      collector.report('invalid_value', `${path}.maxRetries`, `maxRetries must not be negative (got ${directive.maxRetries})`);
+    }
+  });
+}
+
+// ID를 가진 객체 목록 검증 (지시사항, 에셋)
+function validateIdList(collector: IssueCollector, value: unknown, path: string): void {
+  if (!collector.expect(value, path, 'array')) return;
+
+  const ids = new Set<string>();
+  (value as unknown[]).forEach((entry, index) => {
+    if (!collector.expect(entry, `${path}[${index}]`, 'object')) return;
+    const id = (entry as JsonObject).id;
+    if (!collector.expect(id, `${path}[${index}].id`, 'string')) return;
+    if (ids.has(id as string)) collector.report('duplicate_id', `${path}[${index}].id`, `Duplicate ID: ${id}`);
+    ids.add(id as string);
+  });
+}
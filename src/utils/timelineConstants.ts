@@ -0,0 +1,32 @@
+// 타임라인 열거 값 - timelineUtils/Composition과 projectSchema 검증이 함께 사용 (import 순환을 피하려고 의존성 없는 모듈로 분리)
+
+// 트랙 타입
+export const TRACK_TYPES = ['video', 'audio', 'subtitle'] as const;
+export type TrackType = typeof TRACK_TYPES[number];
+
+// 타임라인 아이템 타입
+export const ITEM_TYPES = ['video', 'audio', 'image', 'text'] as const;
+export type ItemType = typeof ITEM_TYPES[number];
+
+// 트랙 겹침 정책 - 아이템을 추가/이동할 때 기존 아이템과 겹치면 처리하는 방식
+//   overwrite: 겹친 부분의 기존 아이템을 잘라내거나 삭제, insert: 배치 지점 이후 아이템을 모두 뒤로 밀기 (리플),
+//   reject: TimelineOverlapError로 거부, allow: 그대로 겹침 허용 (레이어 오버레이 트랙용)
+export const OVERLAP_POLICIES = ['overwrite', 'insert', 'reject', 'allow'] as const;
+export type OverlapPolicy = typeof OVERLAP_POLICIES[number];
+
+// 텍스트 아이템 가로 정렬
+export const TEXT_ALIGNS = ['left', 'center', 'right'] as const;
+export type TextAlign = typeof TEXT_ALIGNS[number];
+
+// 트랜지션 종류 - crossfade: 교차 디졸브, dip_to_black: 검은 화면을 거쳐 전환, wipe: 경계선이 밀며 드러냄,
+//   slide: 뒤 클립이 밀고 들어옴, zoom: 앞 클립이 확대되며 사라지고 뒤 클립이 나타남
+export const TRANSITION_TYPES = ['crossfade', 'dip_to_black', 'wipe', 'slide', 'zoom'] as const;
+export type TransitionType = typeof TRANSITION_TYPES[number];
+
+// 편집점 기준 트랜지션 위치 - center: 편집점을 가운데로, start: 편집점에서 시작, end: 편집점에서 끝남
+export const TRANSITION_ALIGNMENTS = ['center', 'start', 'end'] as const;
+export type TransitionAlignment = typeof TRANSITION_ALIGNMENTS[number];
+
+// wipe/slide 진행 방향
+export const TRANSITION_DIRECTIONS = ['left', 'right', 'up', 'down'] as const;
+export type TransitionDirection = typeof TRANSITION_DIRECTIONS[number];
@@ -1,16 +1,114 @@
 // 타임라인 편집 유틸리티
-import { random } from 'remotion';
+import { Easing, interpolateColors, random, spring, SpringConfig } from 'remotion';
 import { MediaItem } from '../Composition';
+import { ClipEffect, EffectType } from './effectUtils';
+import { ProjectValidationError, validateTimelineData } from './projectSchema';
+import { OverlapPolicy, TrackType, TransitionAlignment, TransitionDirection, TransitionType } from './timelineConstants';
+
+// 열거 값은 projectSchema와 공유하는 timelineConstants에 정의
+export {
+  OVERLAP_POLICIES,
+  TRACK_TYPES,
+  TRANSITION_ALIGNMENTS,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_TYPES
+} from './timelineConstants';
+export type { OverlapPolicy, TrackType, TransitionAlignment, TransitionDirection, TransitionType } from './timelineConstants';
+
+// 트랜지션 - 같은 트랙에서 맞닿은 두 아이템(fromItem 끝 = toItem 시작) 사이의 전환
+// 전환 구간 동안 fromItem은 끝 이후로, toItem은 시작 이전으로 늘려 두 클립을 겹쳐 렌더링
+export interface Transition {
+  id: string;
+  type: TransitionType;
+  fromItemId: string;
+  toItemId: string;
+  durationInFrames: number;
+  alignment: TransitionAlignment;
+  direction?: TransitionDirection; // 없으면 left
+}
 
 // 트랙 타입
 export interface Track {
   id: string;
   name: string;
-  type: 'video' | 'audio' | 'subtitle';
+  type: TrackType;
   items: MediaItem[];
   isLocked: boolean;
   isVisible: boolean;
   volume?: number;
+  overlapPolicy?: OverlapPolicy; // 없으면 overwrite
+  transitions?: Transition[];
+}
+
+// 겹침 거부 오류 - reject 정책 트랙에 겹치게 배치하려 할 때
+export class TimelineOverlapError extends Error {
+  trackId: string;
+  conflictingItemIds: string[];
+
+  constructor(trackId: string, conflictingItemIds: string[]) {
+    super(`Item overlaps ${conflictingItemIds.length} item(s) on track ${trackId}: ${conflictingItemIds.join(', ')}`);
+    this.name = 'TimelineOverlapError';
+    this.trackId = trackId;
+    this.conflictingItemIds = conflictingItemIds;
+  }
+}
+
+// 편집 부수 효과 - 편집 대상 외에 위치/길이가 바뀌거나 삭제/생성된 아이템
+export interface ItemSideEffect {
+  itemId: string;
+  trackId: string;
+  change: 'moved' | 'trimmed' | 'removed' | 'created';
+  startFrame?: number; // 변경 후 값 (removed면 없음)
+  durationInFrames?: number;
+}
+
+// 빈 구간 (아이템이 없어 검은 화면/무음으로 렌더링되는 범위, endFrame 미포함)
+export interface TimelineGap {
+  startFrame: number;
+  endFrame: number;
+  durationInFrames: number;
+}
+
+// 빈 구간 조회 결과 - 트랙별 빈 구간과 보이는 모든 트랙이 비어 있는 타임라인 전체 빈 구간
+export interface GapReport {
+  tracks: { trackId: string; gaps: TimelineGap[] }[];
+  timeline: TimelineGap[];
+}
+
+// 타임라인 비교 결과 (diffTimelines)
+export interface ClipPlacement {
+  startFrame: number;
+  durationInFrames: number;
+  sourceStartFrame?: number;
+}
+
+export interface ClipDiff {
+  itemId: string;
+  type: MediaItem['type'];
+  before?: ClipPlacement; // added면 없음
+  after?: ClipPlacement; // removed면 없음
+}
+
+// 트랙별 변경 - trimmed: 길이나 원본 시작 위치가 바뀜, moved: 길이는 그대로 위치만 바뀜,
+// updated: 위치/길이 외 속성(효과, 텍스트, 변형 등)만 바뀜
+export interface TrackDiff {
+  trackId: string;
+  name: string;
+  change: 'added' | 'removed' | 'modified'; // 트랙 자체의 변경
+  added: ClipDiff[];
+  removed: ClipDiff[];
+  moved: ClipDiff[];
+  trimmed: ClipDiff[];
+  updated: ClipDiff[];
+  transitionsAdded: Transition[];
+  transitionsRemoved: Transition[];
+}
+
+export interface TimelineDiff {
+  tracks: TrackDiff[];
+  durationBefore: number;
+  durationAfter: number;
+  durationChange: number; // 프레임
 }
 
 // 편집 작업 파라미터 타입
@@ -27,28 +125,100 @@ interface EditOperationParameters {
   trimEnd?: number;
   splitFrame?: number;
   secondPartId?: string;
+  allTracks?: boolean;
+  ripple?: boolean;
+  trackIds?: string[];
+  gaps?: TimelineGap[];
+  editFrame?: number;
+  offset?: number;
+  transition?: Transition;
+  effect?: ClipEffect;
+  targets?: { trackId: string; itemId: string }[];
+  oldMediaId?: string;
+  newMediaId?: string;
+  changes?: TrackChange[];
+  keyframeChanges?: KeyframeChange[];
+  assetChanges?: AssetMediaChange[];
+}
+
+// 에셋이 가리키는 미디어 파일 변경 기록 (에셋 교체, 실행 취소/다시 실행용)
+export interface AssetMediaChange {
+  assetId: string;
+  before?: string; // 미디어 파일 ID
+  after: string;
+}
+
+// 아이템 키프레임 변경 기록 (분할/앞쪽 트림으로 다시 맞춘 키프레임, 실행 취소/다시 실행용)
+export interface KeyframeChange {
+  itemId: string;
+  before: Keyframe[];
+  after: Keyframe[];
+}
+
+// 트랙 상태 변경 기록 (실행 취소/다시 실행용)
+export interface TrackChange {
+  trackId: string;
+  before?: Track; // 이 편집에서 만든 트랙이면 없음 (실행 취소 시 트랙 제거)
+  after: Track;
 }
 
 // 편집 작업 타입
 export interface EditOperation {
   id: string;
-  type: 'cut' | 'trim' | 'move' | 'copy' | 'delete' | 'split';
+  type: 'cut' | 'trim' | 'move' | 'copy' | 'delete' | 'split' | 'ripple' | 'roll' | 'slip' | 'slide' | 'transition' | 'effect' | 'replace';
   trackId: string;
   itemId: string;
   timestamp: number;
   parameters: EditOperationParameters;
 }
 
+// 편집 기록 조회용 항목
+export interface EditHistoryEntry {
+  id: string;
+  type: EditOperation['type'];
+  trackId: string;
+  itemId: string;
+  timestamp: number;
+}
+
+// 키프레임으로 애니메이션할 수 있는 아이템 속성 (color/backgroundColor: 텍스트 글자색과 배경 박스 색)
+export const ANIMATABLE_PROPERTIES = ['x', 'y', 'position', 'scale', 'rotation', 'opacity', 'volume', 'color', 'backgroundColor'] as const;
+export type AnimatableProperty = typeof ANIMATABLE_PROPERTIES[number];
+
+// 2D 좌표 값을 갖는 속성
+export const POINT_PROPERTIES: AnimatableProperty[] = ['position'];
+
+// 색상 문자열 값을 갖는 텍스트 전용 속성 (나머지는 숫자)
+export const COLOR_PROPERTIES: AnimatableProperty[] = ['color', 'backgroundColor'];
+
+// 키프레임 이징 종류 - 다음 키프레임까지의 진행 곡선
+//   cubic-bezier: bezier 제어점 사용, step: steps 단계로 끊어서 변화, hold: 다음 키프레임까지 값 유지,
+//   spring: Remotion spring() 물리 (다음 키프레임 프레임에 맞춰 정착)
+export const KEYFRAME_EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'cubic-bezier', 'step', 'hold', 'spring'] as const;
+export type KeyframeEasing = typeof KEYFRAME_EASINGS[number];
+
+// 2D 좌표 값
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// 키프레임 값 - 숫자, 색상 문자열 (hex/rgb/rgba/hsl), 2D 좌표
+export type KeyframeValue = number | string | Point2D;
+
 // 키프레임 타입
 export interface Keyframe {
   frame: number;
   property: string;
-  value: number | string;
-  easing?: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+  value: KeyframeValue;
+  easing?: KeyframeEasing;
+  bezier?: [number, number, number, number]; // cubic-bezier 제어점 (x1, y1, x2, y2)
+  steps?: number; // step 단계 수 (기본 1)
+  spring?: Partial<SpringConfig>; // spring 설정 (damping, mass, stiffness, overshootClamping)
 }
 
 // 타임라인 내보내기 데이터 타입
-interface TimelineExportData {
+export interface TimelineExportData {
   tracks: Track[];
   currentFrame: number;
   totalDuration: number;
@@ -63,13 +233,29 @@ export class TimelineManager {
   private fps: number = 30;
   private undoStack: EditOperation[] = [];
   private redoStack: EditOperation[] = [];
+  private lastSideEffects: ItemSideEffect[] = [];
+  private keyframeManager?: KeyframeManager;
+  // 진행 중인 편집에서 클립 시작 기준이 바뀐 아이템 (offset만큼 키프레임을 앞으로 당김, 분할이면 새 파트로 복사)
+  private keyframeShifts: { itemId: string; targetItemId: string; offset: number }[] = [];
+  private assetMediaHandler?: (assetId: string, mediaId: string | undefined) => void;
 
   constructor(fps: number = 30) {
     this.fps = fps;
   }
 
+  // 편집에 맞춰 키프레임을 옮길 키프레임 관리자 연결 (키프레임 프레임은 클립 시작 기준)
+  // 분할하면 뒤쪽 파트에 복사하고, 앞쪽을 트림하면 잘린 길이만큼 당겨 애니메이션이 원본 영상에 붙어 있게 함
+  setKeyframeManager(keyframeManager: KeyframeManager): void {
+    this.keyframeManager = keyframeManager;
+  }
+
+  // 에셋 교체와 함께 에셋이 가리키는 미디어를 바꿀 처리기 연결 (실행 취소/다시 실행에도 호출)
+  setAssetMediaHandler(handler: (assetId: string, mediaId: string | undefined) => void): void {
+    this.assetMediaHandler = handler;
+  }
+
   // 트랙 생성
-  createTrack(name: string, type: 'video' | 'audio' | 'subtitle'): Track {
+  createTrack(name: string, type: TrackType, overlapPolicy: OverlapPolicy = 'overwrite'): Track {
     const track: Track = {
       id: this.generateId(),
       name,
@@ -77,7 +263,8 @@ export class TimelineManager {
       items: [],
       isLocked: false,
       isVisible: true,
-      volume: type === 'audio' ? 1 : undefined
+      volume: type === 'audio' ? 1 : undefined,
+      overlapPolicy
     };
 
     this.tracks.set(track.id, track);
@@ -104,28 +291,69 @@ export class TimelineManager {
     const track = this.tracks.get(trackId);
     if (!track || track.isLocked) return false;
 
-    // 삽입 위치 계산
-    if (insertFrame !== undefined) {
-      item.startFrame = insertFrame;
-    }
-
-    // 겹침 검사 및 해결
-    this.resolveOverlaps(track, item);
+    this.assertPlacement(track, { ...item, startFrame: insertFrame ?? item.startFrame });
 
-    track.items.push(item);
-    this.updateTotalDuration();
-    
-    // 실행 취소를 위한 작업 기록
-    this.recordOperation({
-      id: this.generateId(),
+    return this.recordEdit({
       type: 'move',
       trackId,
       itemId: item.id,
-      timestamp: Date.now(),
-      parameters: { action: 'add', item }
+      parameters: { action: 'add', item: { ...item } }
+    }, () => {
+      // 삽입 위치 계산
+      if (insertFrame !== undefined) {
+        item.startFrame = insertFrame;
+      }
+
+      // 겹침 검사 및 해결
+      this.resolveOverlaps(track, item);
+
+      track.items.push(item);
+      return true;
     });
+  }
 
-    return true;
+  // 여러 아이템을 하나의 편집 작업으로 추가 (루프 배치 등)
+  addItemsToTrack(trackId: string, items: MediaItem[]): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked || items.length === 0) return false;
+
+    items.forEach(item => this.assertPlacement(track, item));
+
+    return this.recordEdit({
+      type: 'move',
+      trackId,
+      itemId: items[0].id,
+      parameters: { action: 'add', item: { ...items[0] } }
+    }, () => {
+      this.placeItems(track, items);
+      return true;
+    });
+  }
+
+  // 이름과 타입으로 찾은 트랙에 아이템 추가 - 트랙이 없으면 같은 편집 안에서 만들어 실행 취소 시 함께 제거
+  addItemsToNamedTrack(name: string, type: TrackType, items: MediaItem[], overlapPolicy?: OverlapPolicy): boolean {
+    const existing = this.getTracks().find(track => track.type === type && track.name === name);
+    if (existing) return this.addItemsToTrack(existing.id, items);
+    if (items.length === 0) return false;
+
+    return this.recordEdit({
+      type: 'move',
+      trackId: '',
+      itemId: items[0].id,
+      parameters: { action: 'add', item: { ...items[0] } }
+    }, operation => {
+      const track = this.createTrack(name, type, overlapPolicy);
+      operation.trackId = track.id;
+      this.placeItems(track, items);
+      return true;
+    });
+  }
+
+  private placeItems(track: Track, items: MediaItem[]): void {
+    items.forEach(item => {
+      this.resolveOverlaps(track, item);
+      track.items.push(item);
+    });
   }
 
   // 미디어 아이템 삭제
@@ -136,20 +364,15 @@ export class TimelineManager {
     const itemIndex = track.items.findIndex(item => item.id === itemId);
     if (itemIndex === -1) return false;
 
-    const removedItem = track.items.splice(itemIndex, 1)[0];
-    this.updateTotalDuration();
-
-    // 실행 취소를 위한 작업 기록
-    this.recordOperation({
-      id: this.generateId(),
+    return this.recordEdit({
       type: 'delete',
       trackId,
       itemId,
-      timestamp: Date.now(),
-      parameters: { action: 'remove', item: removedItem }
+      parameters: { action: 'remove', item: { ...track.items[itemIndex] } }
+    }, () => {
+      track.items.splice(itemIndex, 1);
+      return true;
     });
-
-    return true;
   }
 
   // 아이템 이동
@@ -160,42 +383,38 @@ export class TimelineManager {
     const itemIndex = sourceTrack.items.findIndex(item => item.id === itemId);
     if (itemIndex === -1) return false;
 
+    const targetTrack = newTrackId ? this.tracks.get(newTrackId) : sourceTrack;
+    if (!targetTrack || targetTrack.isLocked) return false;
+
     const item = sourceTrack.items[itemIndex];
     const oldStartFrame = item.startFrame;
 
-    // 같은 트랙 내에서 이동
-    if (!newTrackId || newTrackId === trackId) {
-      item.startFrame = newStartFrame;
-      this.resolveOverlaps(sourceTrack, item);
-    } else {
-      // 다른 트랙으로 이동
-      const targetTrack = this.tracks.get(newTrackId);
-      if (!targetTrack || targetTrack.isLocked) return false;
-
-      sourceTrack.items.splice(itemIndex, 1);
-      item.startFrame = newStartFrame;
-      this.resolveOverlaps(targetTrack, item);
-      targetTrack.items.push(item);
-    }
-
-    this.updateTotalDuration();
+    this.assertPlacement(targetTrack, { ...item, startFrame: newStartFrame });
 
-    // 실행 취소를 위한 작업 기록
-    this.recordOperation({
-      id: this.generateId(),
+    return this.recordEdit({
       type: 'move',
       trackId,
       itemId,
-      timestamp: Date.now(),
       parameters: { 
         oldStartFrame, 
         newStartFrame, 
         oldTrackId: trackId, 
         newTrackId: newTrackId || trackId 
       }
+    }, () => {
+      // 같은 트랙 내에서 이동
+      if (targetTrack === sourceTrack) {
+        item.startFrame = newStartFrame;
+        this.resolveOverlaps(sourceTrack, item);
+      } else {
+        // 다른 트랙으로 이동
+        sourceTrack.items.splice(itemIndex, 1);
+        item.startFrame = newStartFrame;
+        this.resolveOverlaps(targetTrack, item);
+        targetTrack.items.push(item);
+      }
+      return true;
     });
-
-    return true;
   }
 
   // 아이템 트림 (시작/끝 시간 조정)
@@ -207,31 +426,17 @@ export class TimelineManager {
     if (!item) return false;
 
     const oldDuration = item.durationInFrames;
-    
-    if (trimStart !== undefined) {
-      const trimAmount = trimStart - item.startFrame;
-      item.startFrame = trimStart;
-      item.durationInFrames = Math.max(1, item.durationInFrames - trimAmount);
-    }
-    
-    if (trimEnd !== undefined) {
-      const newDuration = trimEnd - item.startFrame;
-      item.durationInFrames = Math.max(1, newDuration);
-    }
 
-    this.updateTotalDuration();
-
-    // 실행 취소를 위한 작업 기록
-    this.recordOperation({
-      id: this.generateId(),
+    return this.recordEdit({
       type: 'trim',
       trackId,
       itemId,
-      timestamp: Date.now(),
-      parameters: { oldDuration, newDuration: item.durationInFrames, trimStart, trimEnd }
+      parameters: { oldDuration, trimStart, trimEnd }
+    }, operation => {
+      this.applyTrim(item, trimStart, trimEnd);
+      operation.parameters.newDuration = item.durationInFrames;
+      return true;
     });
-
-    return true;
   }
 
   // 아이템 분할
@@ -245,53 +450,636 @@ export class TimelineManager {
     const relativeFrame = splitFrame - item.startFrame;
     if (relativeFrame <= 0 || relativeFrame >= item.durationInFrames) return false;
 
-    // 두 번째 파트 생성
+    return this.recordEdit({
+      type: 'split',
+      trackId,
+      itemId,
+      parameters: { splitFrame }
+    }, operation => {
+      const secondPart = this.cutItem(item, splitFrame);
+      operation.parameters.secondPartId = secondPart.id;
+      track.items.push(secondPart);
+      // 나가는 트랜지션은 뒤쪽 파트로 옮김
+      track.transitions?.forEach(transition => {
+        if (transition.fromItemId === item.id) transition.fromItemId = secondPart.id;
+      });
+      return true;
+    });
+  }
+
+  // 리플 삭제 - 아이템을 지우고 뒤쪽 아이템들을 당겨 빈 자리를 없앰 (allTracks: 잠기지 않은 모든 트랙에 적용)
+  rippleDelete(trackId: string, itemId: string, allTracks: boolean = false): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked) return false;
+
+    const itemIndex = track.items.findIndex(item => item.id === itemId);
+    if (itemIndex === -1) return false;
+
+    const item = track.items[itemIndex];
+    const itemEnd = item.startFrame + item.durationInFrames;
+
+    return this.recordEdit({
+      type: 'ripple',
+      trackId,
+      itemId,
+      parameters: { action: 'ripple_delete', item: { ...item }, allTracks }
+    }, () => {
+      track.items.splice(itemIndex, 1);
+      return this.rippleShift(track, itemEnd, -item.durationInFrames, allTracks);
+    });
+  }
+
+  // 리플 트림 - 아이템 길이 변화만큼 뒤쪽 아이템들을 이동 (앞쪽을 트림해도 시작 위치는 유지)
+  rippleTrim(trackId: string, itemId: string, trimStart?: number, trimEnd?: number, allTracks: boolean = false): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked) return false;
+
+    const item = track.items.find(item => item.id === itemId);
+    if (!item) return false;
+
+    const oldStartFrame = item.startFrame;
+    const oldEnd = item.startFrame + item.durationInFrames;
+
+    return this.recordEdit({
+      type: 'ripple',
+      trackId,
+      itemId,
+      parameters: { action: 'ripple_trim', oldDuration: item.durationInFrames, trimStart, trimEnd, allTracks }
+    }, operation => {
+      this.applyTrim(item, trimStart, trimEnd);
+      item.startFrame = oldStartFrame;
+      operation.parameters.newDuration = item.durationInFrames;
+
+      return this.rippleShift(track, oldEnd, item.startFrame + item.durationInFrames - oldEnd, allTracks, item.id);
+    });
+  }
+
+  // 롤 편집 - 맞닿은 다음 아이템과의 경계를 editFrame으로 옮김 (두 아이템의 전체 길이는 유지)
+  rollEdit(trackId: string, itemId: string, editFrame: number): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked) return false;
+
+    const item = track.items.find(item => item.id === itemId);
+    if (!item) return false;
+
+    const itemEnd = item.startFrame + item.durationInFrames;
+    const next = track.items.find(other => other.id !== item.id && other.startFrame === itemEnd);
+    if (!next) return false;
+
+    // 두 아이템 모두 1프레임 이상, 원본 범위 안에서만 경계 이동
+    let minFrame = item.startFrame + 1;
+    let maxFrame = next.startFrame + next.durationInFrames - 1;
+    const remainingSource = this.getRemainingSourceFrames(item);
+    if (remainingSource !== undefined) maxFrame = Math.min(maxFrame, item.startFrame + remainingSource);
+    if (this.hasSourceMedia(next)) minFrame = Math.max(minFrame, next.startFrame - (next.sourceStartFrame ?? 0));
+    if (minFrame > maxFrame) return false;
+
+    const newEditFrame = Math.min(maxFrame, Math.max(minFrame, editFrame));
+    if (newEditFrame === itemEnd) return false;
+
+    return this.recordEdit({
+      type: 'roll',
+      trackId,
+      itemId,
+      parameters: { action: 'roll', editFrame: newEditFrame }
+    }, () => {
+      this.applyTrim(item, undefined, newEditFrame);
+      this.applyTrim(next, newEditFrame);
+      return true;
+    });
+  }
+
+  // 슬립 편집 - 타임라인 위치와 길이는 그대로 두고 원본 재생 구간만 offset만큼 이동
+  slipItem(trackId: string, itemId: string, offset: number): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked) return false;
+
+    const item = track.items.find(item => item.id === itemId);
+    if (!item || !this.hasSourceMedia(item)) return false;
+
+    const sourceStart = item.sourceStartFrame ?? 0;
+    const maxSourceStart = item.sourceDurationInFrames !== undefined
+      ? Math.max(0, item.sourceDurationInFrames - item.durationInFrames)
+      : Infinity;
+    const newSourceStart = Math.min(maxSourceStart, Math.max(0, sourceStart + offset));
+    if (newSourceStart === sourceStart) return false;
+
+    return this.recordEdit({
+      type: 'slip',
+      trackId,
+      itemId,
+      parameters: { action: 'slip', offset: newSourceStart - sourceStart }
+    }, () => {
+      item.sourceStartFrame = newSourceStart;
+      return true;
+    });
+  }
+
+  // 슬라이드 편집 - 아이템을 offset만큼 옮기면서 맞닿은 앞 아이템의 끝과 뒤 아이템의 시작을 맞춰 조정
+  // (아이템의 원본 구간과 트랙 전체 길이는 유지, 맞닿은 아이템이 없으면 빈 공간 안에서만 이동)
+  slideItem(trackId: string, itemId: string, offset: number): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked) return false;
+
+    const item = track.items.find(item => item.id === itemId);
+    if (!item) return false;
+
+    const itemEnd = item.startFrame + item.durationInFrames;
+    const others = track.items.filter(other => other.id !== item.id);
+    const previous = others.find(other => other.startFrame + other.durationInFrames === item.startFrame);
+    const next = others.find(other => other.startFrame === itemEnd);
+
+    let minOffset = -item.startFrame;
+    let maxOffset = Infinity;
+    if (previous) {
+      minOffset = Math.max(minOffset, 1 - previous.durationInFrames);
+      const remainingSource = this.getRemainingSourceFrames(previous);
+      if (remainingSource !== undefined) maxOffset = Math.min(maxOffset, remainingSource - previous.durationInFrames);
+    } else {
+      const gapStart = Math.max(0, ...others
+        .filter(other => other.startFrame + other.durationInFrames <= item.startFrame)
+        .map(other => other.startFrame + other.durationInFrames));
+      minOffset = Math.max(minOffset, gapStart - item.startFrame);
+    }
+    if (next) {
+      maxOffset = Math.min(maxOffset, next.durationInFrames - 1);
+      if (this.hasSourceMedia(next)) minOffset = Math.max(minOffset, -(next.sourceStartFrame ?? 0));
+    } else {
+      const gapEnd = Math.min(Infinity, ...others
+        .filter(other => other.startFrame >= itemEnd)
+        .map(other => other.startFrame));
+      maxOffset = Math.min(maxOffset, gapEnd - itemEnd);
+    }
+    if (minOffset > maxOffset) return false;
+
+    const appliedOffset = Math.min(maxOffset, Math.max(minOffset, offset));
+    if (appliedOffset === 0) return false;
+
+    return this.recordEdit({
+      type: 'slide',
+      trackId,
+      itemId,
+      parameters: { action: 'slide', offset: appliedOffset, oldStartFrame: item.startFrame, newStartFrame: item.startFrame + appliedOffset }
+    }, () => {
+      if (previous) this.applyTrim(previous, undefined, item.startFrame + appliedOffset);
+      if (next) this.applyTrim(next, itemEnd + appliedOffset);
+      item.startFrame += appliedOffset;
+      return true;
+    });
+  }
+
+  // 트랜지션 추가 - 같은 두 아이템 사이의 기존 트랜지션은 교체 (배치할 수 없으면 false, 이유는 checkTransition)
+  addTransition(trackId: string, transition: Transition): boolean {
+    return this.addTransitions([{ trackId, transition }]);
+  }
+
+  // 여러 편집점에 트랜지션 추가 (한 번의 편집으로 기록, 하나라도 배치할 수 없으면 전체 실패)
+  addTransitions(entries: { trackId: string; transition: Transition }[]): boolean {
+    if (entries.length === 0) return false;
+
+    // 앞선 항목이 차지한 길이까지 반영해 차례로 검사
+    const pending = new Map<string, Transition[]>();
+    for (const { trackId, transition } of entries) {
+      const track = this.tracks.get(trackId);
+      if (!track || track.isLocked) return false;
+      const current = pending.get(trackId) ?? track.transitions ?? [];
+      if (this.findTransitionProblem({ ...track, transitions: current }, transition)) return false;
+      pending.set(trackId, [...current.filter(existing => !this.isSameEditPoint(existing, transition)), transition]);
+    }
+
+    const [first] = entries;
+    return this.recordEdit({
+      type: 'transition',
+      trackId: first.trackId,
+      itemId: first.transition.fromItemId,
+      parameters: {
+        action: 'add_transition',
+        transition: { ...first.transition },
+        targets: entries.map(({ trackId, transition }) => ({ trackId, itemId: transition.fromItemId }))
+      }
+    }, () => {
+      pending.forEach((transitions, trackId) => {
+        this.tracks.get(trackId)!.transitions = transitions;
+      });
+      return true;
+    });
+  }
+
+  // 트랜지션 삭제
+  removeTransition(trackId: string, transitionId: string): boolean {
+    const track = this.tracks.get(trackId);
+    if (!track || track.isLocked) return false;
+
+    const transition = track.transitions?.find(existing => existing.id === transitionId);
+    if (!transition) return false;
+
+    return this.recordEdit({
+      type: 'transition',
+      trackId,
+      itemId: transition.fromItemId,
+      parameters: { action: 'remove_transition', transition: { ...transition } }
+    }, () => {
+      track.transitions = track.transitions!.filter(existing => existing.id !== transitionId);
+      return true;
+    });
+  }
+
+  // 비주얼 효과 적용 - 여러 아이템에 한 번의 편집으로 적용, 같은 종류의 기존 효과는 스택 안 위치를 유지한 채 교체
+  applyEffect(targets: { trackId: string; itemId: string }[], effect: ClipEffect): boolean {
+    const items = this.resolveEffectTargets(targets);
+    if (!items) return false;
+
+    return this.recordEdit({
+      type: 'effect',
+      trackId: targets[0].trackId,
+      itemId: targets[0].itemId,
+      parameters: { action: 'apply_effect', effect: { ...effect }, targets }
+    }, () => {
+      items.forEach(item => {
+        const effects = item.effects ?? [];
+        const index = effects.findIndex(existing => existing.type === effect.type);
+        item.effects = index === -1
+          ? [...effects, { ...effect }]
+          : effects.map((existing, position) => position === index ? { ...effect } : existing);
+      });
+      return true;
+    });
+  }
+
+  // 비주얼 효과 제거 (해당 종류의 효과가 없으면 false)
+  removeEffect(trackId: string, itemId: string, effectType: EffectType): boolean {
+    const items = this.resolveEffectTargets([{ trackId, itemId }]);
+    if (!items || !items[0].effects?.some(effect => effect.type === effectType)) return false;
+
+    return this.recordEdit({
+      type: 'effect',
+      trackId,
+      itemId,
+      parameters: { action: 'remove_effect', effect: { type: effectType } }
+    }, () => {
+      const remaining = items[0].effects!.filter(effect => effect.type !== effectType);
+      if (remaining.length > 0) items[0].effects = remaining;
+      else delete items[0].effects;
+      return true;
+    });
+  }
+
+  // 미디어 교체 - mediaId를 참조하는 모든 아이템의 원본을 한 번의 편집으로 바꿈 (배치와 길이는 유지)
+  // assetId를 주면 그 에셋이 가리키는 미디어도 같은 편집으로 바꿈
+  // 사용하는 아이템이 없거나 잠긴 트랙에서 사용 중이면 false
+  replaceMedia(mediaId: string, replacement: { mediaId: string; src: string; sourceDurationInFrames?: number }, assetId?: string): boolean {
+    const uses = this.getTracks().flatMap(track => track.items
+      .filter(item => item.mediaId === mediaId)
+      .map(item => ({ track, item })));
+    if (uses.length === 0 || uses.some(({ track }) => track.isLocked)) return false;
+
+    return this.recordEdit({
+      type: 'replace',
+      trackId: uses[0].track.id,
+      itemId: uses[0].item.id,
+      parameters: {
+        action: 'replace_media',
+        oldMediaId: mediaId,
+        newMediaId: replacement.mediaId,
+        targets: uses.map(({ track, item }) => ({ trackId: track.id, itemId: item.id })),
+        assetChanges: assetId !== undefined ? [{ assetId, before: mediaId, after: replacement.mediaId }] : undefined
+      }
+    }, operation => {
+      this.applyAssetChanges(operation.parameters.assetChanges || [], 'after');
+      uses.forEach(({ item }) => {
+        item.mediaId = replacement.mediaId;
+        item.src = replacement.src;
+        if (replacement.sourceDurationInFrames !== undefined) item.sourceDurationInFrames = replacement.sourceDurationInFrames;
+        else delete item.sourceDurationInFrames;
+      });
+      return true;
+    });
+  }
+
+  // 트랜지션 배치 검사 - 문제가 있으면 이유, 없으면 undefined
+  checkTransition(trackId: string, transition: Transition): string | undefined {
+    const track = this.tracks.get(trackId);
+    if (!track) return `Track not found: ${trackId}`;
+    if (track.isLocked) return `Track is locked: ${trackId}`;
+    return this.findTransitionProblem(track, transition);
+  }
+
+  // 빈 구간 조회 (트랙 끝 이후는 빈 구간으로 보지 않음)
+  findGaps(trackId?: string): GapReport {
+    const tracks = trackId ? [this.tracks.get(trackId)].filter((track): track is Track => track !== undefined) : this.getTracks();
+    const visibleItems = this.getTracks().filter(track => track.isVisible).flatMap(track => track.items);
+
+    return {
+      tracks: tracks.map(track => ({ trackId: track.id, gaps: this.computeGaps(track.items) })),
+      timeline: this.computeGaps(visibleItems)
+    };
+  }
+
+  // 빈 구간 닫기 - 각 아이템을 앞쪽 빈 구간 길이만큼 당김
+  // 트랙을 여러 개 지정하면 모든 트랙이 함께 비어 있는 구간만 닫아 트랙 간 싱크 유지 (지정하지 않으면 잠기지 않은 전체 트랙)
+  closeGaps(trackIds?: string[]): boolean {
+    const ids = trackIds && trackIds.length > 0
+      ? trackIds
+      : this.getTracks().filter(track => !track.isLocked).map(track => track.id);
+    const tracks = ids.map(id => this.tracks.get(id));
+    if (tracks.length === 0 || tracks.some(track => !track || track.isLocked)) return false;
+
+    const linkedTracks = tracks as Track[];
+    const gaps = this.computeGaps(linkedTracks.flatMap(track => track.items));
+    if (gaps.length === 0) return false;
+
+    return this.recordEdit({
+      type: 'ripple',
+      trackId: ids[0],
+      itemId: '',
+      parameters: { action: 'close_gaps', trackIds: ids, gaps }
+    }, () => {
+      linkedTracks.forEach(track => track.items.forEach(item => {
+        const shift = gaps
+          .filter(gap => gap.endFrame <= item.startFrame)
+          .reduce((total, gap) => total + gap.durationInFrames, 0);
+        item.startFrame -= shift;
+      }));
+      return true;
+    });
+  }
+
+  // 구간 잘라내기 - 잠기지 않은 모든 트랙에서 [startFrame, endFrame) 구간을 지움 (하나의 편집 작업으로 기록)
+  // 경계에 걸친 아이템은 경계에서 나눈 뒤 안쪽 조각만 삭제, ripple이면 잘라낸 길이만큼 뒤쪽 아이템을 당김
+  cutRange(startFrame: number, endFrame: number, ripple: boolean = false): boolean {
+    if (startFrame < 0 || endFrame <= startFrame) return false;
+
+    const tracks = this.getTracks().filter(track => !track.isLocked);
+
+    return this.recordEdit({
+      type: 'cut',
+      trackId: '',
+      itemId: '',
+      parameters: { action: 'cut_range', trimStart: startFrame, trimEnd: endFrame, ripple }
+    }, () => {
+      let changed = false;
+
+      tracks.forEach(track => {
+        const pieces: MediaItem[] = [];
+        track.items = track.items.filter(item => {
+          if (item.startFrame >= endFrame || item.startFrame + item.durationInFrames <= startFrame) return true;
+          changed = true;
+
+          // 시작 경계 앞부분은 원래 아이템으로 남기고, 끝 경계 뒷부분은 새 아이템으로 분리
+          if (item.startFrame + item.durationInFrames > endFrame) {
+            pieces.push(this.cutItem(item, endFrame));
+          }
+          if (item.startFrame < startFrame) {
+            this.applyTrim(item, undefined, startFrame);
+            return true;
+          }
+          return false;
+        });
+        track.items.push(...pieces);
+
+        if (ripple) {
+          track.items
+            .filter(item => item.startFrame >= endFrame)
+            .forEach(item => {
+              item.startFrame -= endFrame - startFrame;
+              changed = true;
+            });
+        }
+      });
+
+      return changed;
+    });
+  }
+
+  // 아이템 목록의 빈 구간 계산 - 겹친 아이템은 하나의 구간으로 병합
+  private computeGaps(items: MediaItem[]): TimelineGap[] {
+    const gaps: TimelineGap[] = [];
+    let coveredUntil = 0;
+
+    [...items].sort((a, b) => a.startFrame - b.startFrame).forEach(item => {
+      if (item.startFrame > coveredUntil) {
+        gaps.push({ startFrame: coveredUntil, endFrame: item.startFrame, durationInFrames: item.startFrame - coveredUntil });
+      }
+      coveredUntil = Math.max(coveredUntil, item.startFrame + item.durationInFrames);
+    });
+
+    return gaps;
+  }
+
+  // 트림 적용 - 원본 첫 프레임/원본 길이를 넘지 않도록 제한
+  private applyTrim(item: MediaItem, trimStart?: number, trimEnd?: number): void {
+    if (trimStart !== undefined) {
+      const itemEnd = item.startFrame + item.durationInFrames;
+      let newStartFrame = Math.min(trimStart, itemEnd - 1);
+      if (this.hasSourceMedia(item)) {
+        const sourceStart = item.sourceStartFrame ?? 0;
+        newStartFrame = Math.max(newStartFrame, item.startFrame - sourceStart);
+        item.sourceStartFrame = sourceStart + (newStartFrame - item.startFrame);
+      }
+      if (newStartFrame !== item.startFrame) {
+        this.keyframeShifts.push({ itemId: item.id, targetItemId: item.id, offset: newStartFrame - item.startFrame });
+      }
+      item.startFrame = newStartFrame;
+      item.durationInFrames = itemEnd - newStartFrame;
+    }
+
+    if (trimEnd !== undefined) {
+      let newDuration = Math.max(1, trimEnd - item.startFrame);
+      const remainingSource = this.getRemainingSourceFrames(item);
+      if (remainingSource !== undefined) newDuration = Math.min(newDuration, remainingSource);
+      item.durationInFrames = newDuration;
+    }
+  }
+
+  // fromFrame 이후에 시작하는 아이템들을 delta만큼 이동
+  // 이동 결과가 음수 위치이거나 이동하지 않은 아이템과 겹치면 false (recordEdit가 원상 복구)
+  private rippleShift(track: Track, fromFrame: number, delta: number, allTracks: boolean, excludeItemId?: string): boolean {
+    if (delta === 0) return true;
+
+    const targets = allTracks ? this.getTracks().filter(target => target === track || !target.isLocked) : [track];
+    return targets.every(target => {
+      const shifted = target.items.filter(item => item.id !== excludeItemId && item.startFrame >= fromFrame);
+      const fixed = target.items.filter(item => !shifted.includes(item));
+      shifted.forEach(item => {
+        item.startFrame += delta;
+      });
+
+      return shifted.every(item => item.startFrame >= 0 && !fixed.some(other => this.itemsOverlap(item, other)));
+    });
+  }
+
+  private itemsOverlap(a: MediaItem, b: MediaItem): boolean {
+    return a.startFrame < b.startFrame + b.durationInFrames && b.startFrame < a.startFrame + a.durationInFrames;
+  }
+
+  // 원본 재생 위치가 있는 미디어인지 (이미지는 길이 제한 없음)
+  private hasSourceMedia(item: MediaItem): boolean {
+    return item.type === 'video' || item.type === 'audio';
+  }
+
+  // 소스 in 점 이후 남은 원본 프레임 수 (원본 길이를 모르면 undefined)
+  private getRemainingSourceFrames(item: MediaItem): number | undefined {
+    if (!this.hasSourceMedia(item) || item.sourceDurationInFrames === undefined) return undefined;
+    return Math.max(1, item.sourceDurationInFrames - (item.sourceStartFrame ?? 0));
+  }
+
+  // 아이템을 frame에서 잘라 뒤쪽 파트를 새 아이템으로 반환 (앞쪽 파트는 frame에서 끝남)
+  private cutItem(item: MediaItem, frame: number): MediaItem {
+    const relativeFrame = frame - item.startFrame;
     const secondPart: MediaItem = {
       ...item,
       id: this.generateId(),
-      startFrame: splitFrame,
+      startFrame: frame,
       durationInFrames: item.durationInFrames - relativeFrame
     };
-
-    // 첫 번째 파트 수정
+    // 두 번째 파트는 원본의 분할 지점부터 재생
+    if (this.hasSourceMedia(item)) {
+      secondPart.sourceStartFrame = (item.sourceStartFrame ?? 0) + relativeFrame;
+    }
     item.durationInFrames = relativeFrame;
+    this.keyframeShifts.push({ itemId: item.id, targetItemId: secondPart.id, offset: relativeFrame });
+    return secondPart;
+  }
 
-    // 두 번째 파트 추가
-    track.items.push(secondPart);
+  // 트랜지션 배치 조건 - 맞닿은 두 아이템, 전환 구간이 두 아이템 안에 들어가고 각 아이템의 다른 트랜지션과 겹치지 않음
+  private findTransitionProblem(track: Track, transition: Transition): string | undefined {
+    const { fromItemId, toItemId, durationInFrames } = transition;
+    if (!Number.isInteger(durationInFrames) || durationInFrames < 1) return 'Transition duration must be a positive integer';
+
+    const from = track.items.find(item => item.id === fromItemId);
+    const to = track.items.find(item => item.id === toItemId);
+    if (!from) return `Item not found on track: ${fromItemId}`;
+    if (!to) return `Item not found on track: ${toItemId}`;
+    if (from.startFrame + from.durationInFrames !== to.startFrame) {
+      return `Items are not adjacent: ${fromItemId} must end where ${toItemId} starts`;
+    }
 
-    // 실행 취소를 위한 작업 기록
-    this.recordOperation({
-      id: this.generateId(),
-      type: 'split',
-      trackId,
-      itemId,
-      timestamp: Date.now(),
-      parameters: { splitFrame, secondPartId: secondPart.id }
-    });
+    // 같은 아이템의 반대쪽 트랜지션이 차지한 길이
+    const others = (track.transitions ?? []).filter(existing => existing.id !== transition.id && !this.isSameEditPoint(existing, transition));
+    const incoming = others.find(existing => existing.toItemId === fromItemId);
+    const outgoing = others.find(existing => existing.fromItemId === toItemId);
+    const { before, after } = getTransitionOffsets(transition);
+    const fromAvailable = from.durationInFrames - (incoming ? getTransitionOffsets(incoming).after : 0);
+    const toAvailable = to.durationInFrames - (outgoing ? getTransitionOffsets(outgoing).before : 0);
+    if (before > fromAvailable) return `Transition needs ${before} frames of ${fromItemId} (only ${fromAvailable} available)`;
+    if (after > toAvailable) return `Transition needs ${after} frames of ${toItemId} (only ${toAvailable} available)`;
+    return undefined;
+  }
 
-    return true;
+  // 효과 대상 아이템 조회 (잠긴 트랙이나 없는 아이템이 있으면 undefined)
+  private resolveEffectTargets(targets: { trackId: string; itemId: string }[]): MediaItem[] | undefined {
+    if (targets.length === 0) return undefined;
+
+    const items: MediaItem[] = [];
+    for (const { trackId, itemId } of targets) {
+      const track = this.tracks.get(trackId);
+      const item = track?.items.find(candidate => candidate.id === itemId);
+      if (!track || track.isLocked || !item) return undefined;
+      items.push(item);
+    }
+    return items;
   }
 
-  // 겹침 해결
+  private isSameEditPoint(a: Transition, b: Transition): boolean {
+    return a.fromItemId === b.fromItemId && a.toItemId === b.toItemId;
+  }
+
+  // 편집으로 더는 맞닿지 않거나 길이가 모자라게 된 트랜지션 제거
+  private pruneTransitions(track: Track): void {
+    if (!track.transitions || track.transitions.length === 0) return;
+
+    const valid = track.transitions.filter(transition => !this.findTransitionProblem(track, transition));
+    if (valid.length !== track.transitions.length) track.transitions = valid;
+  }
+
+  // 트랙 겹침 정책 조회
+  private getOverlapPolicy(track: Track): OverlapPolicy {
+    return track.overlapPolicy ?? 'overwrite';
+  }
+
+  // reject 정책 트랙이면 배치 전에 겹침 검사
+  private assertPlacement(track: Track, placed: MediaItem): void {
+    if (this.getOverlapPolicy(track) !== 'reject') return;
+
+    const conflicts = track.items.filter(item => item.id !== placed.id && this.itemsOverlap(item, placed));
+    if (conflicts.length > 0) throw new TimelineOverlapError(track.id, conflicts.map(item => item.id));
+  }
+
+  // 겹침 해결 - 트랙 겹침 정책에 따라 배치된 아이템과 겹치는 기존 아이템 정리
   private resolveOverlaps(track: Track, newItem: MediaItem): void {
     const newItemEnd = newItem.startFrame + newItem.durationInFrames;
-    
-    track.items.forEach(item => {
-      if (item.id === newItem.id) return;
-      
-      const itemEnd = item.startFrame + item.durationInFrames;
-      
-      // 겹침 검사
-      if (!(newItemEnd <= item.startFrame || newItem.startFrame >= itemEnd)) {
-        // 기존 아이템을 뒤로 밀기
-        if (newItem.startFrame < item.startFrame) {
-          item.startFrame = newItemEnd;
-        } else {
-          // 기존 아이템 트림
-          item.durationInFrames = Math.max(1, newItem.startFrame - item.startFrame);
-        }
+    const others = track.items.filter(item => item.id !== newItem.id);
+
+    switch (this.getOverlapPolicy(track)) {
+      case 'overwrite': {
+        const removed = new Set<MediaItem>();
+        others.filter(item => this.itemsOverlap(item, newItem)).forEach(item => {
+          const itemEnd = item.startFrame + item.durationInFrames;
+          if (item.startFrame >= newItem.startFrame && itemEnd <= newItemEnd) {
+            // 완전히 덮인 아이템 삭제
+            removed.add(item);
+          } else if (item.startFrame < newItem.startFrame && itemEnd > newItemEnd) {
+            // 가운데가 덮이면 둘로 나눠 뒤쪽 파트는 배치된 아이템 뒤에서 이어짐
+            track.items.push(this.cutItem(item, newItemEnd));
+            this.applyTrim(item, undefined, newItem.startFrame);
+          } else if (item.startFrame < newItem.startFrame) {
+            this.applyTrim(item, undefined, newItem.startFrame);
+          } else {
+            this.applyTrim(item, newItemEnd);
+          }
+        });
+        track.items = track.items.filter(item => !removed.has(item));
+        break;
+      }
+
+      case 'insert': {
+        // 배치 지점에 걸친 아이템은 나눈 뒤, 배치 지점 이후 아이템 전체를 배치된 아이템 길이만큼 밀기
+        others
+          .filter(item => item.startFrame < newItem.startFrame && item.startFrame + item.durationInFrames > newItem.startFrame)
+          .forEach(item => track.items.push(this.cutItem(item, newItem.startFrame)));
+        track.items
+          .filter(item => item.id !== newItem.id && item.startFrame >= newItem.startFrame)
+          .forEach(item => {
+            item.startFrame += newItem.durationInFrames;
+          });
+        break;
       }
+
+      case 'reject': // assertPlacement에서 미리 검사
+      case 'allow':
+        break;
+    }
+  }
+
+  // 편집 부수 효과 계산 - 스냅샷 이후 편집 대상 외에 바뀐 아이템 목록
+  private collectSideEffects(before: Map<string, Track>, targetItemId: string): ItemSideEffect[] {
+    const effects: ItemSideEffect[] = [];
+    const previousItems = new Map<string, { trackId: string; item: MediaItem }>();
+    before.forEach((track, trackId) => {
+      track.items.forEach(item => previousItems.set(item.id, { trackId, item }));
     });
+
+    this.tracks.forEach((track, trackId) => {
+      track.items.forEach(item => {
+        const previous = previousItems.get(item.id);
+        previousItems.delete(item.id);
+        if (item.id === targetItemId) return;
+
+        const { startFrame, durationInFrames } = item;
+        if (!previous) {
+          effects.push({ itemId: item.id, trackId, change: 'created', startFrame, durationInFrames });
+        } else if (previous.item.durationInFrames !== durationInFrames) {
+          effects.push({ itemId: item.id, trackId, change: 'trimmed', startFrame, durationInFrames });
+        } else if (previous.item.startFrame !== startFrame) {
+          effects.push({ itemId: item.id, trackId, change: 'moved', startFrame, durationInFrames });
+        }
+      });
+    });
+
+    previousItems.forEach(({ trackId }, itemId) => {
+      if (itemId !== targetItemId) effects.push({ itemId, trackId, change: 'removed' });
+    });
+    return effects;
   }
 
   // 전체 지속 시간 업데이트
@@ -313,6 +1101,11 @@ export class TimelineManager {
     this.currentFrame = Math.max(0, Math.min(frame, this.totalDuration));
   }
 
+  // 타임라인 프레임 레이트 조회
+  getFps(): number {
+    return this.fps;
+  }
+
   // 현재 프레임 조회
   getCurrentFrame(): number {
     return this.currentFrame;
@@ -323,6 +1116,11 @@ export class TimelineManager {
     return this.totalDuration;
   }
 
+  // 마지막 편집의 부수 효과 (겹침 정리, 리플 이동 등으로 바뀐 다른 아이템)
+  getLastSideEffects(): ItemSideEffect[] {
+    return this.lastSideEffects.map(effect => ({ ...effect }));
+  }
+
   // 현재 프레임에서 활성 아이템들 조회
   getActiveItems(): MediaItem[] {
     const activeItems: MediaItem[] = [];
@@ -341,6 +1139,106 @@ export class TimelineManager {
     return activeItems;
   }
 
+  // 편집 실행 및 기록 - 변경 전후 트랙 상태를 저장해 겹침 해결 등 부수 효과까지 되돌릴 수 있게 함
+  private recordEdit(
+    operation: Omit<EditOperation, 'id' | 'timestamp'>,
+    edit: (operation: EditOperation) => boolean
+  ): boolean {
+    const recorded: EditOperation = {
+      ...operation,
+      id: this.generateId(),
+      timestamp: Date.now()
+    };
+    const before = this.snapshotTracks();
+    this.lastSideEffects = [];
+    this.keyframeShifts = [];
+
+    if (!edit(recorded)) {
+      this.restoreSnapshot(before);
+      return false;
+    }
+
+    this.tracks.forEach(track => this.pruneTransitions(track));
+    recorded.parameters.changes = this.collectChanges(before);
+    const keyframeChanges = this.retimeKeyframes();
+    if (keyframeChanges.length > 0) recorded.parameters.keyframeChanges = keyframeChanges;
+    this.lastSideEffects = this.collectSideEffects(before, recorded.itemId);
+    this.updateTotalDuration();
+    this.recordOperation(recorded);
+    return true;
+  }
+
+  // 편집 중 기록된 시작 기준 변경을 키프레임에 반영 (같은 아이템의 변경은 순서대로 누적)
+  private retimeKeyframes(): KeyframeChange[] {
+    const shifts = this.keyframeShifts;
+    this.keyframeShifts = [];
+    if (!this.keyframeManager) return [];
+
+    const keyframeManager = this.keyframeManager;
+    const retimed = new Map<string, Keyframe[]>();
+    const current = (itemId: string) => retimed.get(itemId) ?? keyframeManager.getKeyframes(itemId);
+    shifts.forEach(({ itemId, targetItemId, offset }) => {
+      const keyframes = current(itemId);
+      // 범위 밖 키프레임도 남겨 경계의 보간 값을 유지
+      if (keyframes.length > 0 || retimed.has(targetItemId)) {
+        retimed.set(targetItemId, keyframes.map(keyframe => ({ ...keyframe, frame: keyframe.frame - offset })));
+      }
+    });
+
+    const changes = Array.from(retimed.entries(), ([itemId, after]) => ({ itemId, before: keyframeManager.getKeyframes(itemId), after }));
+    this.applyKeyframeChanges(changes, 'after');
+    return changes;
+  }
+
+  private applyKeyframeChanges(changes: KeyframeChange[], side: 'before' | 'after'): void {
+    changes.forEach(change => this.keyframeManager?.setKeyframes(change.itemId, change[side]));
+  }
+
+  private applyAssetChanges(changes: AssetMediaChange[], side: 'before' | 'after'): void {
+    changes.forEach(change => this.assetMediaHandler?.(change.assetId, change[side]));
+  }
+
+  // 모든 트랙 상태 복사
+  private snapshotTracks(): Map<string, Track> {
+    const snapshot = new Map<string, Track>();
+    this.tracks.forEach((track, trackId) => {
+      snapshot.set(trackId, structuredClone(track));
+    });
+    return snapshot;
+  }
+
+  // 스냅샷 이후 변경된 트랙 목록 계산
+  private collectChanges(before: Map<string, Track>): TrackChange[] {
+    const changes: TrackChange[] = [];
+
+    this.tracks.forEach((track, trackId) => {
+      const previous = before.get(trackId);
+      if (previous && JSON.stringify(previous) === JSON.stringify(track)) return;
+
+      changes.push({ trackId, before: previous, after: structuredClone(track) });
+    });
+
+    return changes;
+  }
+
+  // 실패한 편집의 중간 변경 되돌리기
+  private restoreSnapshot(snapshot: Map<string, Track>): void {
+    snapshot.forEach((state, trackId) => {
+      const track = this.tracks.get(trackId);
+      if (track) this.restoreTrackState(track, state);
+    });
+    // 편집 도중 만든 트랙 제거
+    Array.from(this.tracks.keys())
+      .filter(trackId => !snapshot.has(trackId))
+      .forEach(trackId => this.tracks.delete(trackId));
+  }
+
+  // 트랙 내용 복원 (트랙 객체 자체는 유지)
+  private restoreTrackState(track: Track, state: Track): void {
+    track.items = structuredClone(state.items);
+    track.transitions = state.transitions ? structuredClone(state.transitions) : undefined;
+  }
+
   // 작업 기록 (실행 취소/다시 실행용)
   private recordOperation(operation: EditOperation): void {
     this.undoStack.push(operation);
@@ -376,16 +1274,59 @@ export class TimelineManager {
     return true;
   }
 
-  // 작업 실행
+  // 작업 실행 - 기록된 변경 후 상태 적용
   private executeOperation(operation: EditOperation): void {
-    // 실제 구현에서는 각 작업 타입에 맞는 실행 로직 구현
-    console.log('Executing operation:', operation);
+    this.applyChanges(operation.parameters.changes || [], 'after');
+    this.applyKeyframeChanges(operation.parameters.keyframeChanges || [], 'after');
+    this.applyAssetChanges(operation.parameters.assetChanges || [], 'after');
   }
 
-  // 역방향 작업 실행
+  // 역방향 작업 실행 - 기록된 변경 전 상태 적용
   private executeReverseOperation(operation: EditOperation): void {
-    // 실제 구현에서는 각 작업 타입에 맞는 역방향 실행 로직 구현
-    console.log('Executing reverse operation:', operation);
+    this.applyChanges(operation.parameters.changes || [], 'before');
+    this.applyKeyframeChanges(operation.parameters.keyframeChanges || [], 'before');
+    this.applyAssetChanges(operation.parameters.assetChanges || [], 'before');
+  }
+
+  // 트랙 변경 기록 적용
+  private applyChanges(changes: TrackChange[], side: 'before' | 'after'): void {
+    changes.forEach(change => {
+      const state = change[side];
+      const track = this.tracks.get(change.trackId);
+
+      if (!state) {
+        // 편집에서 만든 트랙은 실행 취소 시 제거
+        this.tracks.delete(change.trackId);
+      } else if (track) {
+        this.restoreTrackState(track, state);
+      } else {
+        // 삭제된 트랙은 기록된 상태로 다시 생성
+        this.tracks.set(change.trackId, structuredClone(state));
+      }
+    });
+
+    this.updateTotalDuration();
+  }
+
+  // 실행 취소/다시 실행 가능 여부
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // 편집 기록 조회 - cursor 이전은 적용된 작업, 이후는 다시 실행 가능한 작업
+  getHistory(): { operations: EditHistoryEntry[]; cursor: number } {
+    const toEntry = ({ id, type, trackId, itemId, timestamp }: EditOperation): EditHistoryEntry => ({
+      id, type, trackId, itemId, timestamp
+    });
+
+    return {
+      operations: [...this.undoStack, ...[...this.redoStack].reverse()].map(toEntry),
+      cursor: this.undoStack.length
+    };
   }
 
   // ID 생성 (Remotion의 deterministic random 사용)
@@ -403,37 +1344,149 @@ export class TimelineManager {
     };
   }
 
-  // 타임라인 데이터 가져오기
+  // 타임라인 데이터 가져오기 (검증 실패 시 ProjectValidationError, 기존 상태 유지)
   import(data: TimelineExportData): void {
+    const issues = validateTimelineData(data);
+    if (issues.length > 0) throw new ProjectValidationError(issues);
+
     this.tracks.clear();
+    this.undoStack = [];
+    this.redoStack = [];
     
-    if (data.tracks) {
-      data.tracks.forEach((track: Track) => {
-        this.tracks.set(track.id, track);
-      });
-    }
+    structuredClone(data.tracks).forEach((track: Track) => {
+      this.tracks.set(track.id, track);
+    });
     
     this.currentFrame = data.currentFrame || 0;
-    this.totalDuration = data.totalDuration || 0;
     this.fps = data.fps || 30;
+    // 저장된 값 대신 아이템 배치로 다시 계산
+    this.updateTotalDuration();
   }
 }
 
+// 편집점 기준 트랜지션 구간 - before: 편집점 앞 프레임 수 (뒤 클립을 앞당겨 보여줌), after: 편집점 뒤 프레임 수
+export function getTransitionOffsets(transition: Pick<Transition, 'durationInFrames' | 'alignment'>): { before: number; after: number } {
+  const { durationInFrames, alignment } = transition;
+  const before = alignment === 'end' ? durationInFrames : alignment === 'start' ? 0 : Math.floor(durationInFrames / 2);
+  return { before, after: durationInFrames - before };
+}
+
+// 두 타임라인 비교 - 바뀐 트랙만 포함 (아이템은 ID로 대응, 다른 트랙으로 옮겨진 아이템은 삭제 + 추가)
+export function diffTimelines(before: TimelineExportData, after: TimelineExportData): TimelineDiff {
+  const placement = (item: MediaItem): ClipPlacement => ({
+    startFrame: item.startFrame,
+    durationInFrames: item.durationInFrames,
+    sourceStartFrame: item.sourceStartFrame
+  });
+  const previousTracks = new Map(before.tracks.map(track => [track.id, track]));
+  const tracks: TrackDiff[] = [];
+
+  const compareTrack = (previous: Track | undefined, current: Track | undefined) => {
+    const track = (current ?? previous)!;
+    const diff: TrackDiff = {
+      trackId: track.id,
+      name: track.name,
+      change: !previous ? 'added' : !current ? 'removed' : 'modified',
+      added: [],
+      removed: [],
+      moved: [],
+      trimmed: [],
+      updated: [],
+      transitionsAdded: [],
+      transitionsRemoved: []
+    };
+
+    const previousItems = new Map((previous?.items ?? []).map(item => [item.id, item]));
+    (current?.items ?? []).forEach(item => {
+      const old = previousItems.get(item.id);
+      previousItems.delete(item.id);
+      const clip = { itemId: item.id, type: item.type, after: placement(item) };
+      if (!old) {
+        diff.added.push(clip);
+      } else if (old.durationInFrames !== item.durationInFrames || (old.sourceStartFrame ?? 0) !== (item.sourceStartFrame ?? 0)) {
+        diff.trimmed.push({ ...clip, before: placement(old) });
+      } else if (old.startFrame !== item.startFrame) {
+        diff.moved.push({ ...clip, before: placement(old) });
+      } else if (JSON.stringify(old) !== JSON.stringify(item)) {
+        diff.updated.push({ ...clip, before: placement(old) });
+      }
+    });
+    previousItems.forEach(item => diff.removed.push({ itemId: item.id, type: item.type, before: placement(item) }));
+
+    // 속성이 바뀐 트랜지션은 삭제 + 추가
+    const key = (transition: Transition) => JSON.stringify(transition);
+    const previousTransitions = new Set((previous?.transitions ?? []).map(key));
+    const currentTransitions = new Set((current?.transitions ?? []).map(key));
+    diff.transitionsAdded = (current?.transitions ?? []).filter(transition => !previousTransitions.has(key(transition)));
+    diff.transitionsRemoved = (previous?.transitions ?? []).filter(transition => !currentTransitions.has(key(transition)));
+
+    const changed = [diff.added, diff.removed, diff.moved, diff.trimmed, diff.updated, diff.transitionsAdded, diff.transitionsRemoved]
+      .some(list => list.length > 0);
+    if (changed || diff.change !== 'modified') tracks.push(diff);
+  };
+
+  after.tracks.forEach(track => {
+    compareTrack(previousTracks.get(track.id), track);
+    previousTracks.delete(track.id);
+  });
+  previousTracks.forEach(track => compareTrack(track, undefined));
+
+  return {
+    tracks,
+    durationBefore: before.totalDuration,
+    durationAfter: after.totalDuration,
+    durationChange: after.totalDuration - before.totalDuration
+  };
+}
+
+// 키프레임 내보내기 데이터 타입 (아이템 ID → 키프레임 목록)
+export type KeyframeExportData = Record<string, Keyframe[]>;
+
 // 키프레임 애니메이션 관리
 export class KeyframeManager {
   private keyframes: Map<string, Keyframe[]> = new Map();
+  private fps: number;
+
+  // fps는 spring 이징 계산에 사용
+  constructor(fps: number = 30) {
+    this.fps = fps;
+  }
 
-  // 키프레임 추가
+  // 키프레임 데이터 내보내기
+  export(): KeyframeExportData {
+    return Object.fromEntries(
+      Array.from(this.keyframes.entries()).map(([itemId, keyframes]) => [itemId, [...keyframes]])
+    );
+  }
+
+  // 키프레임 데이터 가져오기
+  import(data: KeyframeExportData): void {
+    this.keyframes.clear();
+    Object.entries(data || {}).forEach(([itemId, keyframes]) => {
+      this.keyframes.set(itemId, [...keyframes].sort((a, b) => a.frame - b.frame));
+    });
+  }
+
+  // 키프레임 추가 (같은 프레임/속성의 키프레임은 교체)
   addKeyframe(itemId: string, keyframe: Keyframe): void {
     if (!this.keyframes.has(itemId)) {
       this.keyframes.set(itemId, []);
     }
     
     const keyframes = this.keyframes.get(itemId)!;
+    const existingIndex = keyframes.findIndex(kf => kf.frame === keyframe.frame && kf.property === keyframe.property);
+    if (existingIndex !== -1) keyframes.splice(existingIndex, 1);
+
     keyframes.push(keyframe);
     keyframes.sort((a, b) => a.frame - b.frame);
   }
 
+  // 아이템 키프레임 전체 교체 (빈 목록이면 삭제)
+  setKeyframes(itemId: string, keyframes: Keyframe[]): void {
+    if (keyframes.length === 0) this.keyframes.delete(itemId);
+    else this.keyframes.set(itemId, [...keyframes].sort((a, b) => a.frame - b.frame));
+  }
+
   // 키프레임 삭제
   removeKeyframe(itemId: string, frame: number, property: string): boolean {
     const keyframes = this.keyframes.get(itemId);
@@ -443,11 +1496,18 @@ export class KeyframeManager {
     if (index === -1) return false;
 
     keyframes.splice(index, 1);
+    if (keyframes.length === 0) this.keyframes.delete(itemId);
     return true;
   }
 
+  // 아이템의 키프레임 목록 (property 지정 시 해당 속성만)
+  getKeyframes(itemId: string, property?: string): Keyframe[] {
+    const keyframes = this.keyframes.get(itemId) || [];
+    return keyframes.filter(kf => !property || kf.property === property);
+  }
+
   // 특정 프레임에서의 값 계산
-  getValue(itemId: string, frame: number, property: string): number | string | undefined {
+  getValue(itemId: string, frame: number, property: string): KeyframeValue | undefined {
     const keyframes = this.keyframes.get(itemId);
     if (!keyframes) return undefined;
 
@@ -468,38 +1528,71 @@ export class KeyframeManager {
     const before = beforeKeyframes[beforeKeyframes.length - 1];
     const after = afterKeyframes[0];
 
-    // 선형 보간
-    const progress = (frame - before.frame) / (after.frame - before.frame);
-    return this.interpolate(before.value, after.value, progress, before.easing || 'linear');
+    // 이징 적용 후 값 타입별 보간
+    const easedProgress = this.applyEasing(before, frame - before.frame, after.frame - before.frame);
+    return this.interpolate(before.value, after.value, easedProgress);
   }
 
-  // 값 보간
-  private interpolate(start: number | string, end: number | string, progress: number, easing: string): number | string {
-    // 이징 함수 적용
-    const easedProgress = this.applyEasing(progress, easing);
-
-    // 타입별 보간
+  // 값 보간 - 숫자, 2D 좌표, 색상은 보간하고 나머지는 진행이 끝날 때 다음 값으로 전환
+  private interpolate(start: KeyframeValue, end: KeyframeValue, progress: number): KeyframeValue {
     if (typeof start === 'number' && typeof end === 'number') {
-      return start + (end - start) * easedProgress;
+      return start + (end - start) * progress;
+    }
+
+    if (isPoint2D(start) && isPoint2D(end)) {
+      return {
+        x: start.x + (end.x - start.x) * progress,
+        y: start.y + (end.y - start.y) * progress
+      };
+    }
+
+    if (isColor(start) && isColor(end)) {
+      // spring 오버슈트가 색상 범위를 벗어나지 않도록 고정
+      return interpolateColors(Math.min(1, Math.max(0, progress)), [0, 1], [start, end]);
     }
 
-    // 기본적으로 선형 보간
-    return typeof start === 'number' && typeof end === 'number' 
-      ? start + (end - start) * easedProgress 
-      : start;
+    return progress >= 1 ? end : start;
   }
 
-  // 이징 함수
-  private applyEasing(t: number, easing: string): number {
-    switch (easing) {
+  // 이징 함수 - 구간 시작 키프레임의 설정 사용
+  private applyEasing(keyframe: Keyframe, elapsedFrames: number, durationInFrames: number): number {
+    const t = elapsedFrames / durationInFrames;
+
+    switch (keyframe.easing) {
       case 'ease-in':
         return t * t;
       case 'ease-out':
         return 1 - (1 - t) * (1 - t);
       case 'ease-in-out':
         return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+      case 'cubic-bezier': {
+        const [x1, y1, x2, y2] = keyframe.bezier || DEFAULT_BEZIER;
+        return Easing.bezier(x1, y1, x2, y2)(t);
+      }
+      case 'step': {
+        const steps = Math.max(1, Math.floor(keyframe.steps || 1));
+        return Math.floor(t * steps) / steps;
+      }
+      case 'hold':
+        return 0;
+      case 'spring':
+        return spring({ frame: elapsedFrames, fps: this.fps, config: keyframe.spring, durationInFrames });
       default:
         return t; // linear
     }
   }
-} 
\ No newline at end of file
+}
+
+// CSS ease와 같은 기본 cubic-bezier 제어점
+const DEFAULT_BEZIER: [number, number, number, number] = [0.25, 0.1, 0.25, 1];
+
+export function isPoint2D(value: unknown): value is Point2D {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as Point2D).x === 'number' && typeof (value as Point2D).y === 'number';
+}
+
+// 보간 가능한 색상 문자열 (#rgb, #rgba, #rrggbb, #rrggbbaa, rgb(), rgba(), hsl(), hsla())
+export function isColor(value: unknown): value is string {
+  return typeof value === 'string' &&
+    /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgba?|hsla?)\([^)]*\))$/i.test(value.trim());
+}